@@ -0,0 +1,484 @@
+import { RedisConnection } from "./connection.ts";
+import type { Connection } from "./connection.ts";
+import type { BatchReader, Command, CommandExecutor } from "./executor.ts";
+import { MuxExecutor } from "./executor.ts";
+import type {
+	Binary,
+	BufferedReader,
+	Bulk,
+	BulkNil,
+	ConditionalArray,
+	Integer,
+	Raw,
+	RedisReply,
+	RedisValue,
+	SimpleString,
+} from "./protocol/mod.ts";
+import { subscribe } from "./pubsub.ts";
+import type { RedisSubscription } from "./pubsub.ts";
+import { create } from "./redis.ts";
+import type { Redis, RedisConnectOptions } from "./redis.ts";
+import { delay } from "@std/async";
+
+export type ClientCacheMode = "default" | "bcast" | "optin";
+
+export interface ClientCacheOptions {
+	/**
+	 * How the server tracks the keys of this client:
+	 * - `default`: the keys read by this client.
+	 * - `bcast`: every key matching `prefixes`, whether it was read or not.
+	 * - `optin`: only the keys of cached reads, which are announced with
+	 *   `CLIENT CACHING YES`.
+	 * @default "default"
+	 */
+	mode?: ClientCacheMode;
+	/**
+	 * Key prefixes to track in `bcast` mode. Only keys matching them are
+	 * cached. All keys are tracked when empty.
+	 */
+	prefixes?: string[];
+	/**
+	 * The maximum number of cached replies. The least recently used reply is
+	 * evicted first.
+	 * @default 10000
+	 */
+	maxEntries?: number;
+	/**
+	 * How long in milliseconds a reply is cached, `0` to keep it until it is
+	 * invalidated or evicted.
+	 * @default 0
+	 */
+	ttl?: number;
+}
+
+export interface ClientCacheStats {
+	hits: number;
+	misses: number;
+	/** The number of replies dropped because their keys were modified. */
+	invalidations: number;
+	/** The number of replies dropped because of `maxEntries` or `ttl`. */
+	evictions: number;
+	size: number;
+}
+
+export interface ClientCache {
+	readonly stats: ClientCacheStats;
+	/**
+	 * Drops every cached reply.
+	 */
+	clear(): void;
+}
+
+export interface CachedRedisConnectOptions extends RedisConnectOptions {
+	cache?: ClientCacheOptions;
+}
+
+export interface CachedRedis extends Redis {
+	readonly cache: ClientCache;
+}
+
+/**
+ * Connect to Redis with a local cache of read commands (`GET`, `MGET`,
+ * `HGETALL`, `SMEMBERS`, ...), kept up to date with `CLIENT TRACKING`.
+ *
+ * Invalidation messages are received on a second connection subscribed to
+ * `__redis__:invalidate`.
+ *
+ * ```ts
+ * import { createCachedClient } from "./mod.ts";
+ *
+ * const redis = await createCachedClient({
+ *   hostname: "127.0.0.1",
+ *   port: 6379,
+ *   cache: { mode: "bcast", prefixes: ["config:"], maxEntries: 1000 },
+ * });
+ * await redis.get("config:feature-flags"); // miss, read from Redis
+ * await redis.get("config:feature-flags"); // hit
+ * console.log(redis.cache.stats);
+ * ```
+ */
+export async function createCachedClient(
+	options: CachedRedisConnectOptions,
+): Promise<CachedRedis> {
+	const { cache = {}, ...connectOptions } = options;
+	const {
+		hostname,
+		port = 6379,
+		maxInFlight,
+		autoPipeline,
+		...opts
+	} = connectOptions;
+	const connection = new RedisConnection(hostname, port, opts);
+	await connection.connect();
+	const executor = new CachingExecutor(
+		new MuxExecutor(connection, { maxInFlight, autoPipeline }),
+		cache,
+	);
+	try {
+		await executor.init();
+	} catch (error) {
+		executor.close();
+		throw error;
+	}
+	return Object.assign(create(executor), { cache: executor });
+}
+
+// Read commands which can be cached. The value is the index of the first
+// key, and whether every following argument is a key too.
+const cacheableCommands: Record<string, [first: number, allKeys: boolean]> = {
+	EXISTS: [0, true],
+	GET: [0, false],
+	GETRANGE: [0, false],
+	HEXISTS: [0, false],
+	HGET: [0, false],
+	HGETALL: [0, false],
+	HKEYS: [0, false],
+	HLEN: [0, false],
+	HMGET: [0, false],
+	HVALS: [0, false],
+	LINDEX: [0, false],
+	LLEN: [0, false],
+	LRANGE: [0, false],
+	MGET: [0, true],
+	SCARD: [0, false],
+	SISMEMBER: [0, false],
+	SMEMBERS: [0, false],
+	SMISMEMBER: [0, false],
+	STRLEN: [0, false],
+	ZCARD: [0, false],
+	ZRANGE: [0, false],
+	ZSCORE: [0, false],
+};
+
+function getCacheableKeys(
+	command: string,
+	args: RedisValue[],
+): string[] | undefined {
+	const position = cacheableCommands[command];
+	if (!position || args.some((arg) => arg instanceof Uint8Array)) {
+		return undefined;
+	}
+	const [first, allKeys] = position;
+	return (allKeys ? args.slice(first) : [args[first]]).map(String);
+}
+
+interface CacheEntry {
+	reply: RedisReply;
+	keys: string[];
+	expiresAt: number;
+}
+
+/**
+ * Hands out copies of a cached reply, so that callers modifying the arrays
+ * and maps they are given do not modify the cache.
+ */
+class CachedReply implements RedisReply {
+	constructor(private readonly reply: RedisReply) {}
+
+	integer(): Integer {
+		return this.reply.integer();
+	}
+
+	string(): SimpleString | BulkNil {
+		return this.reply.string();
+	}
+
+	bulk(): Bulk {
+		return this.reply.bulk();
+	}
+
+	buffer(): Binary | BulkNil {
+		return this.reply.buffer()?.slice() ?? null;
+	}
+
+	array(): ConditionalArray | BulkNil {
+		return structuredClone(this.reply.array());
+	}
+
+	value(): Raw {
+		return structuredClone(this.reply.value());
+	}
+}
+
+interface PendingRead {
+	keys: string[];
+	// Set when one of the keys was invalidated while the read was in flight.
+	stale: boolean;
+}
+
+const INVALIDATE_CHANNEL = "__redis__:invalidate";
+
+/**
+ * Serves cached read commands and invalidates them with `CLIENT TRACKING`.
+ */
+export class CachingExecutor implements CommandExecutor, ClientCache {
+	// Replies keyed by command and arguments, in least recently used order.
+	private entries = new Map<string, CacheEntry>();
+	// Cache keys of the entries which depend on each Redis key.
+	private keyIndex = new Map<string, Set<string>>();
+	private pending = new Set<PendingRead>();
+	private counters = { hits: 0, misses: 0, invalidations: 0, evictions: 0 };
+	private readonly mode: ClientCacheMode;
+	private readonly prefixes: string[];
+	private readonly maxEntries: number;
+	private readonly ttl: number;
+
+	// The client id of the invalidation connection.
+	private redirectId: number | null = null;
+	private subscription: RedisSubscription<string[]> | null = null;
+	// The reader of the connection on which tracking was enabled. A new reader
+	// means the connection was re-established and lost its tracking state.
+	private trackedReader: BufferedReader | null = null;
+	private trackedRedirectId: number | null = null;
+	private tracking: Promise<void> | null = null;
+	private closed = false;
+
+	constructor(
+		private readonly executor: CommandExecutor,
+		options: ClientCacheOptions = {},
+	) {
+		this.mode = options.mode ?? "default";
+		this.prefixes = options.prefixes ?? [];
+		this.maxEntries = options.maxEntries ?? 10000;
+		this.ttl = options.ttl ?? 0;
+	}
+
+	get connection(): Connection {
+		return this.executor.connection;
+	}
+
+	get stats(): ClientCacheStats {
+		return { ...this.counters, size: this.entries.size };
+	}
+
+	async init(): Promise<void> {
+		await this.subscribe();
+		this.listen();
+		await this.enableTracking();
+	}
+
+	async exec(command: string, ...args: RedisValue[]): Promise<RedisReply> {
+		const name = command.toUpperCase();
+		const keys = getCacheableKeys(name, args);
+		if (
+			!keys || !keys.every((key) => this.isTracked(key)) ||
+			// Invalidations are not received while reconnecting.
+			this.redirectId === null
+		) {
+			// Writes made through this client are visible to its next reads
+			// without waiting for the invalidation message.
+			this.evictArgs(args);
+			return this.executor.exec(command, ...args);
+		}
+
+		const cacheKey = JSON.stringify([name, ...args]);
+		const entry = this.entries.get(cacheKey);
+		if (entry && (entry.expiresAt === 0 || entry.expiresAt > Date.now())) {
+			this.counters.hits++;
+			// Move the entry to the most recently used end.
+			this.entries.delete(cacheKey);
+			this.entries.set(cacheKey, entry);
+			return new CachedReply(entry.reply);
+		}
+		if (entry) {
+			this.counters.evictions++;
+			this.delete(cacheKey);
+		}
+		this.counters.misses++;
+
+		await this.ensureTracking();
+		const reader = this.connection.bufferedReader;
+		const read: PendingRead = { keys, stale: false };
+		this.pending.add(read);
+		try {
+			let reply: RedisReply;
+			if (this.mode === "optin") {
+				// CLIENT CACHING YES applies to the command which follows it. The
+				// executor writes commands in order, so it is not awaited first.
+				[, reply] = await Promise.all([
+					this.executor.exec("CLIENT", "CACHING", "YES"),
+					this.executor.exec(command, ...args),
+				]);
+			} else {
+				reply = await this.executor.exec(command, ...args);
+			}
+			// The reply is not tracked if the connection was re-established.
+			if (read.stale || reader !== this.trackedReader) {
+				return reply;
+			}
+			this.set(cacheKey, { reply, keys, expiresAt: this.expiresAt() });
+			return new CachedReply(reply);
+		} finally {
+			this.pending.delete(read);
+		}
+	}
+
+	execBatch<T>(commands: Command[], read: BatchReader<T>): Promise<T> {
+		// The batch may hold writes, whose keys are evicted like for `exec()`.
+		for (const { args } of commands) {
+			this.evictArgs(args);
+		}
+		return this.executor.execBatch(commands, read);
+	}
+
+	clear(): void {
+		this.entries.clear();
+		this.keyIndex.clear();
+		for (const read of this.pending) {
+			read.stale = true;
+		}
+	}
+
+	close(): void {
+		this.closed = true;
+		this.clear();
+		this.subscription?.close();
+		this.executor.close();
+	}
+
+	private isTracked(key: string): boolean {
+		return this.mode !== "bcast" || this.prefixes.length === 0 ||
+			this.prefixes.some((prefix) => key.startsWith(prefix));
+	}
+
+	private expiresAt(): number {
+		return this.ttl > 0 ? Date.now() + this.ttl : 0;
+	}
+
+	private set(cacheKey: string, entry: CacheEntry): void {
+		this.delete(cacheKey);
+		this.entries.set(cacheKey, entry);
+		for (const key of entry.keys) {
+			let cacheKeys = this.keyIndex.get(key);
+			if (!cacheKeys) {
+				cacheKeys = new Set();
+				this.keyIndex.set(key, cacheKeys);
+			}
+			cacheKeys.add(cacheKey);
+		}
+		while (this.entries.size > this.maxEntries) {
+			const [oldest] = this.entries.keys();
+			this.delete(oldest);
+			this.counters.evictions++;
+		}
+	}
+
+	private delete(cacheKey: string): void {
+		const entry = this.entries.get(cacheKey);
+		if (!entry) return;
+		this.entries.delete(cacheKey);
+		for (const key of entry.keys) {
+			const cacheKeys = this.keyIndex.get(key);
+			cacheKeys?.delete(cacheKey);
+			if (cacheKeys?.size === 0) {
+				this.keyIndex.delete(key);
+			}
+		}
+	}
+
+	private invalidate(keys: string[]): void {
+		for (const key of keys) {
+			for (const cacheKey of this.keyIndex.get(key) ?? []) {
+				this.delete(cacheKey);
+				this.counters.invalidations++;
+			}
+		}
+		for (const read of this.pending) {
+			if (read.keys.some((key) => keys.includes(key))) {
+				read.stale = true;
+			}
+		}
+	}
+
+	private evictArgs(args: RedisValue[]): void {
+		if (this.keyIndex.size === 0) return;
+		this.invalidate(
+			args.filter((arg) => typeof arg === "string" && this.keyIndex.has(arg))
+				.map(String),
+		);
+	}
+
+	private ensureTracking(): Promise<void> {
+		if (
+			this.connection.bufferedReader === this.trackedReader &&
+			this.redirectId === this.trackedRedirectId
+		) {
+			return Promise.resolve();
+		}
+		this.tracking ??= this.enableTracking().finally(() => {
+			this.tracking = null;
+		});
+		return this.tracking;
+	}
+
+	private async enableTracking(): Promise<void> {
+		// Replies cached before were tracked on a previous connection.
+		this.clear();
+		const redirectId = this.redirectId!;
+		const args: RedisValue[] = ["TRACKING", "ON", "REDIRECT", redirectId];
+		if (this.mode === "bcast") {
+			args.push("BCAST");
+			for (const prefix of this.prefixes) {
+				args.push("PREFIX", prefix);
+			}
+		} else if (this.mode === "optin") {
+			args.push("OPTIN");
+		}
+		const reader = this.connection.bufferedReader;
+		await this.executor.exec("CLIENT", ...args);
+		this.trackedReader = reader;
+		this.trackedRedirectId = redirectId;
+	}
+
+	private async subscribe(): Promise<void> {
+		// The invalidations are redirected to the id of the connection which
+		// subscribes, so both must use the same connection.
+		const connection = this.connection.duplicate();
+		await connection.connect();
+		const executor = new MuxExecutor(connection);
+		try {
+			this.redirectId = (await executor.exec("CLIENT", "ID")).value() as number;
+			this.subscription = await subscribe<string[]>(
+				executor,
+				INVALIDATE_CHANNEL,
+			);
+		} catch (error) {
+			executor.close();
+			throw error;
+		}
+		// A reconnected subscription has a new client id, so it is replaced
+		// instead.
+		const subscription = this.subscription;
+		subscription.addEventListener("reconnecting", () => subscription.close());
+	}
+
+	private async listen(): Promise<void> {
+		let attempts = 0;
+		while (!this.closed) {
+			try {
+				if (!this.subscription) {
+					await this.subscribe();
+					attempts = 0;
+				}
+				for await (const { message } of this.subscription!.receive()) {
+					// A null message means the whole database was flushed.
+					if (message === null) {
+						this.clear();
+					} else {
+						this.invalidate(message);
+					}
+				}
+			} catch {
+				// Reconnected below.
+			}
+			// Invalidations may have been missed while disconnected.
+			this.subscription?.close();
+			this.subscription = null;
+			this.redirectId = null;
+			this.clear();
+			if (!this.closed) {
+				await delay(Math.min(5000, 500 * 2 ** attempts++));
+			}
+		}
+	}
+}
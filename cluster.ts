@@ -0,0 +1,585 @@
+import { RedisConnection } from "./connection.ts";
+import type { Connection } from "./connection.ts";
+import { createStreamConsumer } from "./consumer.ts";
+import type { StreamConsumer, StreamConsumerOptions } from "./consumer.ts";
+import { ConnectionClosedError, EOFError, ErrorReplyError } from "./errors.ts";
+import type { BatchReader, Command, CommandExecutor } from "./executor.ts";
+import { MuxExecutor } from "./executor.ts";
+import { readStream } from "./iterator.ts";
+import type { StreamIteratorOptions } from "./iterator.ts";
+import type { RawOrError, RedisReply, RedisValue } from "./protocol/mod.ts";
+import { ssubscribe } from "./pubsub.ts";
+import type { RedisSubscription } from "./pubsub.ts";
+import { create } from "./redis.ts";
+import type { Redis, RedisConnectOptions } from "./redis.ts";
+import type { XMessage } from "./stream.ts";
+import { transaction } from "./transaction.ts";
+import type { TransactionCallback, TransactionOptions } from "./transaction.ts";
+import { encoder } from "./utils.ts";
+
+export interface ClusterNode {
+	hostname: string;
+	port?: number | string;
+}
+
+export interface ClusterConnectOptions
+	extends Omit<RedisConnectOptions, "hostname" | "port" | "db"> {
+	/**
+	 * Nodes which are asked for the cluster topology. Only one of them needs
+	 * to be reachable.
+	 */
+	startupNodes: ClusterNode[];
+	/**
+	 * How many `MOVED`/`ASK` redirections are followed for a single command
+	 * before its error is returned.
+	 * @default 16
+	 */
+	maxRedirections?: number;
+}
+
+/**
+ * Connect to a Redis Cluster.
+ *
+ * The slot map is discovered with `CLUSTER SLOTS` and each command is sent to
+ * the node which serves the hash slot of its key. `MOVED` and `ASK`
+ * redirections are followed transparently.
+ *
+ * Pipelines and transactions are sent to the node serving the slot of their
+ * keys, so all of their keys must hash to the same slot (e.g. by sharing a
+ * `{hashtag}`). A batch whose keys span several slots is rejected, and
+ * redirections are not followed for batches.
+ *
+ * ```ts
+ * import { connectCluster } from "./mod.ts";
+ *
+ * const cluster = await connectCluster({
+ *   startupNodes: [{ hostname: "127.0.0.1", port: 7000 }],
+ * });
+ * await cluster.set("{user:1}:name", "alice");
+ * ```
+ */
+export async function connectCluster(
+	options: ClusterConnectOptions,
+): Promise<Redis> {
+	const executor = new ClusterExecutor(options);
+	await executor.init();
+	const client = create(executor);
+	return Object.assign(client, {
+		// The streams of a consumer must be served by the same node.
+		createStreamConsumer: async (
+			options: StreamConsumerOptions,
+		): Promise<StreamConsumer> => {
+			const key = typeof options.key === "string"
+				? options.key
+				: options.key[0];
+			const dedicated = await executor.createDedicatedExecutor(key);
+			try {
+				return await createStreamConsumer(client, dedicated, options);
+			} catch (error) {
+				dedicated.close();
+				throw error;
+			}
+		},
+		// Shard channels are only served by the node owning their slot.
+		ssubscribe: async <
+			TMessage extends string | string[] | Uint8Array = string,
+		>(
+			...shardChannels: string[]
+		): Promise<RedisSubscription<TMessage>> => {
+			const dedicated = await executor.createDedicatedExecutor(
+				shardChannels[0],
+			);
+			try {
+				return await ssubscribe<TMessage>(dedicated, ...shardChannels);
+			} catch (error) {
+				dedicated.close();
+				throw error;
+			}
+		},
+		async *streamIterator(
+			key: string,
+			options?: StreamIteratorOptions,
+		): AsyncIterableIterator<XMessage> {
+			const dedicated = await executor.createDedicatedExecutor(key);
+			try {
+				yield* readStream(create(dedicated), key, options);
+			} finally {
+				dedicated.close();
+			}
+		},
+		// All keys of a transaction must be served by the same node.
+		transaction: async (
+			keys: string[],
+			fn: TransactionCallback,
+			options?: TransactionOptions,
+		): Promise<RawOrError[]> => {
+			if (keys.length === 0) {
+				throw new Error(
+					"A cluster transaction needs a key to pick the node it runs on",
+				);
+			}
+			const dedicated = await executor.createDedicatedExecutor(keys[0]);
+			try {
+				return await transaction(dedicated, keys, fn, options);
+			} finally {
+				dedicated.close();
+			}
+		},
+	});
+}
+
+export const SLOT_COUNT = 16384;
+
+// The minimum delay between two reloads of the slot map which were caused by
+// connection errors.
+const SLOTS_REFRESH_INTERVAL = 1000;
+
+const crc16Table = (() => {
+	const table = new Uint16Array(256);
+	for (let i = 0; i < 256; i++) {
+		let crc = i << 8;
+		for (let j = 0; j < 8; j++) {
+			crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+		}
+		table[i] = crc & 0xffff;
+	}
+	return table;
+})();
+
+// CRC16-CCITT (XMODEM), as used by Redis Cluster.
+function crc16(bytes: Uint8Array): number {
+	let crc = 0;
+	for (const byte of bytes) {
+		crc = ((crc << 8) & 0xffff) ^ crc16Table[((crc >> 8) ^ byte) & 0xff];
+	}
+	return crc;
+}
+
+const OPEN_BRACE = 123;
+const CLOSE_BRACE = 125;
+
+/**
+ * Returns the hash slot of a key. When the key contains a non-empty
+ * `{hashtag}`, only the hashtag is hashed.
+ */
+export function calculateSlot(key: string | Uint8Array): number {
+	let bytes = typeof key === "string" ? encoder.encode(key) : key;
+	const start = bytes.indexOf(OPEN_BRACE);
+	if (start !== -1) {
+		const end = bytes.indexOf(CLOSE_BRACE, start + 1);
+		if (end > start + 1) {
+			bytes = bytes.subarray(start + 1, end);
+		}
+	}
+	return crc16(bytes) % SLOT_COUNT;
+}
+
+// Commands which do not take a key and can run on any node.
+const keylessCommands = new Set([
+	"ACL",
+	"AUTH",
+	"BGREWRITEAOF",
+	"BGSAVE",
+	"CLIENT",
+	"CLUSTER",
+	"COMMAND",
+	"CONFIG",
+	"DBSIZE",
+	"DEBUG",
+	"ECHO",
+	"FLUSHALL",
+	"FLUSHDB",
+	"FUNCTION",
+	"HELLO",
+	"INFO",
+	"KEYS",
+	"LASTSAVE",
+	"LATENCY",
+	"LOLWUT",
+	"MEMORY",
+	"MODULE",
+	"PING",
+	"PUBLISH",
+	"PUBSUB",
+	"RANDOMKEY",
+	"ROLE",
+	"SAVE",
+	"SCAN",
+	"SCRIPT",
+	"SELECT",
+	"SLOWLOG",
+	"TIME",
+	"WAIT",
+]);
+
+// Commands whose key follows a subcommand, e.g. `OBJECT ENCODING key`.
+const keyAfterSubcommand = new Set(["BITOP", "OBJECT", "XGROUP", "XINFO"]);
+
+// Commands whose keys follow a `numkeys` argument at the given index.
+const numkeysIndex: Record<string, number> = {
+	EVAL: 1,
+	EVALSHA: 1,
+	EVAL_RO: 1,
+	EVALSHA_RO: 1,
+	FCALL: 1,
+	FCALL_RO: 1,
+	LMPOP: 0,
+	SINTERCARD: 0,
+	ZDIFF: 0,
+	ZINTER: 0,
+	ZINTERCARD: 0,
+	ZMPOP: 0,
+	ZUNION: 0,
+	BLMPOP: 1,
+	BZMPOP: 1,
+};
+
+/**
+ * Returns the first key of a command, or `undefined` when the command does
+ * not operate on a key.
+ */
+export function getCommandKey(
+	command: string,
+	args: RedisValue[],
+): RedisValue | undefined {
+	const name = command.toUpperCase();
+	if (keylessCommands.has(name)) {
+		return undefined;
+	}
+	if (name in numkeysIndex) {
+		const index = numkeysIndex[name];
+		return Number(args[index]) > 0 ? args[index + 1] : undefined;
+	}
+	if (keyAfterSubcommand.has(name)) {
+		return args[1];
+	}
+	if (name === "XREAD" || name === "XREADGROUP") {
+		const index = args.findIndex((arg) =>
+			typeof arg === "string" && arg.toUpperCase() === "STREAMS"
+		);
+		return index === -1 ? undefined : args[index + 1];
+	}
+	return args[0];
+}
+
+function getCommandSlot(
+	command: string,
+	args: RedisValue[],
+): number | undefined {
+	const key = getCommandKey(command, args);
+	if (key === undefined) {
+		return undefined;
+	}
+	return calculateSlot(key instanceof Uint8Array ? key : String(key));
+}
+
+function isConnectionError(error: unknown): boolean {
+	return (
+		error instanceof Deno.errors.BadResource ||
+		error instanceof Deno.errors.BrokenPipe ||
+		error instanceof Deno.errors.ConnectionAborted ||
+		error instanceof Deno.errors.ConnectionRefused ||
+		error instanceof Deno.errors.ConnectionReset ||
+		error instanceof Deno.errors.NotConnected ||
+		error instanceof EOFError
+	);
+}
+
+type Redirection = {
+	type: "MOVED" | "ASK";
+	slot: number;
+	address: string;
+};
+
+function parseRedirection(error: unknown): Redirection | undefined {
+	if (!(error instanceof ErrorReplyError)) {
+		return undefined;
+	}
+	const match = /^-?(MOVED|ASK) (\d+) (\S+)/.exec(error.message);
+	if (!match) {
+		return undefined;
+	}
+	return {
+		type: match[1] as Redirection["type"],
+		slot: parseInt(match[2], 10),
+		address: match[3],
+	};
+}
+
+function parseAddress(address: string): ClusterNode {
+	const index = address.lastIndexOf(":");
+	return {
+		hostname: address.slice(0, index),
+		port: parseInt(address.slice(index + 1), 10),
+	};
+}
+
+type SlotRange = [
+	start: number,
+	end: number,
+	primary: [hostname: string, port: number, ...rest: unknown[]],
+	...replicas: unknown[],
+];
+
+/**
+ * Routes each command to the node which serves the hash slot of its key.
+ */
+export class ClusterExecutor implements CommandExecutor {
+	// Executors keyed by `hostname:port`.
+	private nodes = new Map<string, CommandExecutor>();
+	private connecting = new Map<string, Promise<CommandExecutor>>();
+	// The address of the node serving each slot.
+	private slots: (string | undefined)[] = new Array(SLOT_COUNT);
+	private refreshing: Promise<void> | null = null;
+	private lastErrorRefreshAt = 0;
+	private closed = false;
+	private readonly startupNodes: string[];
+	private readonly maxRedirections: number;
+	private readonly connectOptions: Omit<
+		ClusterConnectOptions,
+		"startupNodes" | "maxRedirections"
+	>;
+
+	constructor(options: ClusterConnectOptions) {
+		const { startupNodes, maxRedirections, ...connectOptions } = options;
+		if (startupNodes.length === 0) {
+			throw new Error("At least one startup node is required");
+		}
+		this.startupNodes = startupNodes.map(({ hostname, port = 6379 }) =>
+			`${hostname}:${port}`
+		);
+		this.maxRedirections = maxRedirections ?? 16;
+		this.connectOptions = connectOptions;
+	}
+
+	/**
+	 * The connection of any node, used to report the connection state.
+	 */
+	get connection(): Connection {
+		const [executor] = this.nodes.values();
+		if (!executor) {
+			throw new ConnectionClosedError("No cluster node is connected");
+		}
+		return executor.connection;
+	}
+
+	async init(): Promise<void> {
+		await this.refreshSlots();
+	}
+
+	async exec(command: string, ...args: RedisValue[]): Promise<RedisReply> {
+		if (this.closed) {
+			throw new ConnectionClosedError("Connection is closed");
+		}
+
+		const slot = getCommandSlot(command, args);
+		let address = slot === undefined ? undefined : this.slots[slot];
+		let asking = false;
+		let failedOver = false;
+		for (let redirections = 0;; redirections++) {
+			let executor: CommandExecutor | undefined;
+			try {
+				executor = await this.getNode(address);
+				if (asking) {
+					// ASKING must reach the node right before the command. The
+					// executor writes commands in order, so it is not awaited first.
+					const [, reply] = await Promise.all([
+						executor.exec("ASKING"),
+						executor.exec(command, ...args),
+					]);
+					return reply;
+				}
+				return await executor.exec(command, ...args);
+			} catch (error) {
+				if (isConnectionError(error) && !failedOver && !this.closed) {
+					// A failed node is not announced with MOVED, so the slot map is
+					// reloaded and the command is retried once on the new owner.
+					failedOver = true;
+					if (executor) {
+						this.dropNode(executor);
+					}
+					await this.refreshSlotsAfterError();
+					address = slot === undefined ? undefined : this.slots[slot];
+					asking = false;
+					continue;
+				}
+				const redirection = parseRedirection(error);
+				if (!redirection || redirections >= this.maxRedirections) {
+					throw error;
+				}
+				address = redirection.address;
+				asking = redirection.type === "ASK";
+				if (redirection.type === "MOVED") {
+					// The slot was migrated, so the rest of the map may be stale too.
+					this.slots[redirection.slot] = redirection.address;
+					this.refreshSlots().catch(() => {});
+				}
+			}
+		}
+	}
+
+	async execBatch<T>(commands: Command[], read: BatchReader<T>): Promise<T> {
+		if (this.closed) {
+			throw new ConnectionClosedError("Connection is closed");
+		}
+		const slots = new Set<number>();
+		for (const { command, args } of commands) {
+			const slot = getCommandSlot(command, args);
+			if (slot !== undefined) {
+				slots.add(slot);
+			}
+		}
+		if (slots.size > 1) {
+			throw new Error(
+				"All keys of a pipeline or transaction must hash to the same slot",
+			);
+		}
+		const [slot] = slots;
+		const executor = await this.getNode(
+			slot === undefined ? undefined : this.slots[slot],
+		);
+		return executor.execBatch(commands, read);
+	}
+
+	/**
+	 * Opens a new connection to the node serving the slot of `key`, e.g. for
+	 * a subscription to shard channels.
+	 */
+	async createDedicatedExecutor(key: string): Promise<CommandExecutor> {
+		const executor = await this.getNode(this.slots[calculateSlot(key)]);
+		const connection = executor.connection.duplicate();
+		await connection.connect();
+		return new MuxExecutor(connection);
+	}
+
+	close(): void {
+		this.closed = true;
+		for (const executor of this.nodes.values()) {
+			executor.close();
+		}
+	}
+
+	/**
+	 * Reloads the slot map with `CLUSTER SLOTS`. Concurrent calls share the
+	 * same request.
+	 */
+	refreshSlots(): Promise<void> {
+		this.refreshing ??= this.loadSlots().finally(() => {
+			this.refreshing = null;
+		});
+		return this.refreshing;
+	}
+
+	/**
+	 * Reloads the slot map after a connection error, at most once per
+	 * `SLOTS_REFRESH_INTERVAL` milliseconds.
+	 */
+	private async refreshSlotsAfterError(): Promise<void> {
+		if (
+			!this.refreshing &&
+			Date.now() - this.lastErrorRefreshAt < SLOTS_REFRESH_INTERVAL
+		) {
+			return;
+		}
+		this.lastErrorRefreshAt = Date.now();
+		try {
+			await this.refreshSlots();
+		} catch {
+			// The command is retried with the slot map which is known.
+		}
+	}
+
+	private dropNode(executor: CommandExecutor): void {
+		for (const [address, node] of this.nodes) {
+			if (node === executor) {
+				this.nodes.delete(address);
+				executor.close();
+			}
+		}
+	}
+
+	private async loadSlots(): Promise<void> {
+		const candidates = [
+			...new Set([...this.nodes.keys(), ...this.startupNodes]),
+		];
+		let lastError: unknown;
+		for (const address of candidates) {
+			try {
+				const executor = await this.getNode(address);
+				const reply = await executor.exec("CLUSTER", "SLOTS");
+				this.applySlots(
+					reply.value() as SlotRange[],
+					parseAddress(address).hostname,
+				);
+				return;
+			} catch (error) {
+				lastError = error;
+			}
+		}
+		throw lastError;
+	}
+
+	private applySlots(ranges: SlotRange[], queriedHostname: string): void {
+		const slots: (string | undefined)[] = new Array(SLOT_COUNT);
+		for (const [start, end, [hostname, port]] of ranges) {
+			// An empty or unknown hostname means the node which was queried.
+			const host = hostname && hostname !== "?" ? hostname : queriedHostname;
+			const address = `${host}:${port}`;
+			slots.fill(address, start, end + 1);
+		}
+		this.slots = slots;
+
+		// Drop the connections to nodes which no longer serve any slot.
+		const addresses = new Set(slots);
+		for (const [address, executor] of this.nodes) {
+			if (!addresses.has(address)) {
+				executor.close();
+				this.nodes.delete(address);
+			}
+		}
+	}
+
+	private getNode(address?: string): Promise<CommandExecutor> {
+		if (address === undefined) {
+			const [executor] = this.nodes.values();
+			if (executor) {
+				return Promise.resolve(executor);
+			}
+			address = this.slots.find((address) => address !== undefined) ??
+				this.startupNodes[0];
+		}
+
+		const executor = this.nodes.get(address);
+		if (executor) {
+			return Promise.resolve(executor);
+		}
+		let connecting = this.connecting.get(address);
+		if (!connecting) {
+			connecting = this.connectNode(address)
+				.then((executor) => {
+					this.nodes.set(address, executor);
+					return executor;
+				})
+				.finally(() => {
+					this.connecting.delete(address);
+				});
+			this.connecting.set(address, connecting);
+		}
+		return connecting;
+	}
+
+	/**
+	 * Opens the connection to the node at `address`.
+	 */
+	protected async connectNode(address: string): Promise<CommandExecutor> {
+		const { hostname, port } = parseAddress(address);
+		const { maxInFlight, autoPipeline, ...connectionOptions } =
+			this.connectOptions;
+		const connection = new RedisConnection(hostname, port!, connectionOptions);
+		await connection.connect();
+		return new MuxExecutor(connection, {
+			maxInFlight,
+			autoPipeline,
+		});
+	}
+}
@@ -6,14 +6,27 @@ import type {
 	ConditionalArray,
 	Integer,
 	Raw,
+	RawOrError,
 	RedisValue,
 	SimpleString,
 } from "./protocol/mod.ts";
+import type { StreamConsumer, StreamConsumerOptions } from "./consumer.ts";
+import type { StreamIteratorOptions } from "./iterator.ts";
+import type { RedisMonitor } from "./monitor.ts";
 import type { RedisPipeline } from "./pipeline.ts";
 import type { RedisSubscription } from "./pubsub.ts";
+import type {
+	RedisBoundScript,
+	RedisScript,
+	ScriptDefinition,
+} from "./script.ts";
+import type { TransactionCallback, TransactionOptions } from "./transaction.ts";
 import type {
 	StartEndCount,
 	XAddFieldValues,
+	XAddOpts,
+	XAutoClaimOpts,
+	XAutoClaimReply,
 	XClaimOpts,
 	XClaimReply,
 	XId,
@@ -36,6 +49,7 @@ import type {
 	XReadGroupOpts,
 	XReadOpts,
 	XReadReply,
+	XTrimOpts,
 } from "./stream.ts";
 
 export type ACLLogMode = "RESET";
@@ -90,6 +104,53 @@ export type ClusterSetSlotSubcommand =
 	| "NODE"
 	| "STABLE";
 
+export type FunctionFlushMode = "ASYNC" | "SYNC";
+
+export interface FunctionListOpts {
+	/**
+	 * Only lists the libraries whose names match this pattern.
+	 */
+	libraryName?: string;
+	withCode?: boolean;
+}
+
+export interface FunctionLoadOpts {
+	/**
+	 * Replaces the library if it already exists.
+	 */
+	replace?: boolean;
+}
+
+export type FunctionRestorePolicy = "FLUSH" | "APPEND" | "REPLACE";
+
+export interface FunctionInfo {
+	name: string;
+	description: string | null;
+	flags: string[];
+}
+
+export interface FunctionLibraryInfo {
+	libraryName: string;
+	engine: string;
+	functions: FunctionInfo[];
+	/**
+	 * The source of the library, only listed with `withCode`.
+	 */
+	libraryCode?: string;
+}
+
+export interface FunctionStatsReply {
+	/**
+	 * The function currently running, if any.
+	 */
+	runningScript: {
+		name: string;
+		command: string[];
+		durationMs: number;
+	} | null;
+	engines: Record<string, { librariesCount: number; functionsCount: number }>;
+}
+
 export interface MigrateOpts {
 	copy?: boolean;
 	replace?: boolean;
@@ -396,6 +457,11 @@ export interface RedisCommands {
 	hexists(key: string, field: string): Promise<Integer>;
 	hget(key: string, field: string): Promise<Bulk>;
 	hgetall(key: string): Promise<BulkString[]>;
+	/**
+	 * Returns the fields and values of the hash as a map. RESP3 servers reply
+	 * with a map, and the flat RESP2 reply is paired up into one.
+	 */
+	hgetallMap(key: string): Promise<Map<BulkString, BulkString>>;
 	hincrby(key: string, field: string, increment: number): Promise<Integer>;
 	hincrbyfloat(
 		key: string,
@@ -519,7 +585,15 @@ export interface RedisCommands {
 	pubsubChannels(pattern?: string): Promise<BulkString[]>;
 	pubsubNumsub(...channels: string[]): Promise<(BulkString | Integer)[]>;
 	pubsubNumpat(): Promise<Integer>;
+	pubsubShardChannels(pattern?: string): Promise<BulkString[]>;
+	pubsubShardNumsub(
+		...shardChannels: string[]
+	): Promise<(BulkString | Integer)[]>;
 	publish(channel: string, message: RedisValue): Promise<Integer>;
+	spublish(shardChannel: string, message: RedisValue): Promise<Integer>;
+	ssubscribe<TMessage extends string | string[] | Uint8Array = string>(
+		...shardChannels: string[]
+	): Promise<RedisSubscription<TMessage>>;
 	subscribe<TMessage extends string | string[] | Uint8Array = string>(
 		...channels: string[]
 	): Promise<RedisSubscription<TMessage>>;
@@ -552,6 +626,37 @@ export interface RedisCommands {
 	sunionstore(destination: string, ...keys: string[]): Promise<Integer>;
 
 	// Stream
+	/**
+	 * Creates a worker which reads new messages of a consumer group on a
+	 * dedicated connection and acknowledges them once `handler` returns.
+	 *
+	 * ```ts
+	 * const controller = new AbortController();
+	 * const worker = await redis.createStreamConsumer({
+	 *   key: "orders",
+	 *   group: "billing",
+	 *   consumer: "worker-1",
+	 *   concurrency: 4,
+	 *   handler: async ({ fieldValues }) => await bill(fieldValues),
+	 *   signal: controller.signal,
+	 * });
+	 * ```
+	 */
+	createStreamConsumer(options: StreamConsumerOptions): Promise<StreamConsumer>;
+	/**
+	 * Yields the messages added to the stream, reading them with `XREAD` on a
+	 * dedicated connection which is closed once the iterator is returned from.
+	 *
+	 * ```ts
+	 * for await (const message of redis.streamIterator("events")) {
+	 *   console.log(message.xid, message.fieldValues);
+	 * }
+	 * ```
+	 */
+	streamIterator(
+		key: string,
+		options?: StreamIteratorOptions,
+	): AsyncIterableIterator<XMessage>;
 	/**
 	 * The XACK command removes one or multiple messages
 	 * from the pending entries list (PEL) of a stream
@@ -616,6 +721,54 @@ export interface RedisCommands {
 		maxlen: XMaxlen,
 	): Promise<XId>;
 	/**
+	 * Write a message to a stream, trimming it by `MAXLEN` or `MINID`.
+	 *
+	 * ```ts
+	 * // Keep about one day of events
+	 * await redis.xadd("events", "*", { type: "login" }, {
+	 *   minid: Date.now() - 24 * 60 * 60 * 1000,
+	 *   approx: true,
+	 *   limit: 1000,
+	 * });
+	 * ```
+	 * @param opts  the trimming strategy, threshold and limit
+	 */
+	xadd(
+		key: string,
+		xid: XIdAdd,
+		field_values: XAddFieldValues,
+		opts: XTrimOpts & { nomkstream?: false },
+	): Promise<XId>;
+	/**
+	 * Write a message to a stream. With `nomkstream`, nothing is
+	 * written and nil is returned if the stream does not exist.
+	 * @param opts  `NOMKSTREAM`, and the trimming strategy, threshold and limit
+	 */
+	xadd(
+		key: string,
+		xid: XIdAdd,
+		field_values: XAddFieldValues,
+		opts: XAddOpts,
+	): Promise<XId | BulkNil>;
+	/**
+	 * Claims the pending messages of `group` which have been idle for at least
+	 * `minIdleTime` milliseconds, scanning the pending entries list from
+	 * `start`. Pass the returned `nextId` as `start` to continue the scan,
+	 * which is complete once it is `0-0`.
+	 *
+	 * With `justid`, only the XIds of the claimed messages are returned and
+	 * their delivery counters are not incremented.
+	 * @see https://redis.io/commands/xautoclaim
+	 */
+	xautoclaim(
+		key: string,
+		group: string,
+		consumer: string,
+		minIdleTime: number,
+		start: XIdInput,
+		opts?: XAutoClaimOpts,
+	): Promise<XAutoClaimReply>;
+	/**
    * In the context of a stream consumer group, this command changes the ownership of a pending message, so that the new owner is the
    * consumer specified as the command argument.
    *
@@ -802,7 +955,7 @@ XGROUP SETID mystream consumer-group-name 0
 	 * If you pass the consumer argument to the command, it will efficiently filter for messages owned by that consumer.
 	 * @param key get pending messages on this stream key
 	 * @param group get pending messages for this group
-	 * @param startEndCount start and end: XId range params. you may specify "-" for start and "+" for end. you must also provide a max count of messages.
+	 * @param startEndCount start and end: XId range params. you may specify "-" for start and "+" for end. you must also provide a max count of messages, and may filter by minimum idle time.
 	 * @param consumer optional, filter by this consumer as owner
 	 */
 	xpendingCount(
@@ -831,8 +984,8 @@ XGROUP SETID mystream consumer-group-name 0
 XRANGE somestream - +
 </pre>
    * @param key  stream key
-   * @param start beginning XId, or -
-   * @param end  final XId, or +
+   * @param start beginning XId, or -, or an exclusive "(XId"
+   * @param end  final XId, or +, or an exclusive "(XId"
    * @param count max number of entries to return
    */
 	xrange(
@@ -861,6 +1014,17 @@ XRANGE somestream - +
 		end: XIdNeg,
 		count?: number,
 	): Promise<XMessage[]>;
+	/**
+	 * Yields the messages between `start` and `end`, reading `pageSize` of
+	 * them at a time with `XRANGE`. Requires Redis 6.2. Throws a `RangeError`
+	 * when `pageSize` is not a positive integer.
+	 */
+	xrangeIterator(
+		key: string,
+		start?: XIdNeg,
+		end?: XIdPos,
+		pageSize?: number,
+	): AsyncIterableIterator<XMessage>;
 	/**
 	 * Read data from one or multiple streams, only returning
 	 * entries with an XId greater than the last received XId
@@ -892,12 +1056,14 @@ XRANGE somestream - +
 
 	/**
    * Trims the stream to the indicated number
-   * of elements.
-<pre>XTRIM mystream MAXLEN 1000</pre>
+   * of elements, or evicts the entries older
+   * than the indicated XId.
+<pre>XTRIM mystream MAXLEN 1000
+XTRIM mystream MINID ~ 1526985054069-0 LIMIT 100</pre>
    * @param key
-   * @param maxlen
+   * @param opts
    */
-	xtrim(key: string, maxlen: XMaxlen): Promise<Integer>;
+	xtrim(key: string, opts: XMaxlen | XTrimOpts): Promise<Integer>;
 
 	// SortedSet
 	bzpopmin(
@@ -1170,6 +1336,10 @@ XRANGE somestream - +
 		([BulkString, Integer, BulkString[], Integer, Integer, Integer] | BulkNil)[]
 	>;
 	configGet(parameter: string): Promise<BulkString[]>;
+	/**
+	 * Returns the matching configuration parameters as a map of name to value.
+	 */
+	configGetMap(parameter: string): Promise<Map<BulkString, BulkString>>;
 	configResetStat(): Promise<SimpleString>;
 	configRewrite(): Promise<SimpleString>;
 	configSet(parameter: string, value: string): Promise<SimpleString>;
@@ -1189,7 +1359,11 @@ XRANGE somestream - +
 	moduleList(): Promise<BulkString[]>;
 	moduleLoad(path: string, ...args: string[]): Promise<SimpleString>;
 	moduleUnload(name: string): Promise<SimpleString>;
-	monitor(): void;
+	/**
+	 * Streams every command processed by the server, on a dedicated connection.
+	 * @see https://redis.io/commands/monitor
+	 */
+	monitor(): Promise<RedisMonitor>;
 	replicaof(host: string, port: number): Promise<SimpleString>;
 	replicaofNoOne(): Promise<SimpleString>;
 	role(): Promise<RoleReply>;
@@ -1205,18 +1379,77 @@ XRANGE somestream - +
 	// Scripting
 	eval(script: string, keys: string[], args: RedisValue[]): Promise<Raw>;
 	evalsha(sha1: string, keys: string[], args: RedisValue[]): Promise<Raw>;
+	/**
+	 * Binds a Lua script to this client. It is run with `EVALSHA`, falling back
+	 * to `EVAL` when the server replies with `NOSCRIPT`.
+	 *
+	 * ```ts
+	 * const getDel = redis.script<string | null>({
+	 *   source: "local v = redis.call('GET', KEYS[1]) redis.call('DEL', KEYS[1]) return v",
+	 *   numberOfKeys: 1,
+	 * });
+	 * const value = await getDel.exec(["key"]);
+	 * ```
+	 */
+	script<T = Raw>(
+		script: ScriptDefinition | RedisScript<T>,
+	): RedisBoundScript<T>;
 	scriptDebug(mode: ScriptDebugMode): Promise<SimpleString>;
 	scriptExists(...sha1s: string[]): Promise<Integer[]>;
 	scriptFlush(): Promise<SimpleString>;
 	scriptKill(): Promise<SimpleString>;
 	scriptLoad(script: string): Promise<SimpleString>;
 
+	// Functions
+	fcall(func: string, keys: string[], args: RedisValue[]): Promise<Raw>;
+	fcallRo(func: string, keys: string[], args: RedisValue[]): Promise<Raw>;
+	functionDelete(libraryName: string): Promise<SimpleString>;
+	functionDump(): Promise<Binary>;
+	functionFlush(mode?: FunctionFlushMode): Promise<SimpleString>;
+	functionList(opts?: FunctionListOpts): Promise<FunctionLibraryInfo[]>;
+	/**
+	 * Loads a library and returns its name.
+	 *
+	 * ```ts
+	 * await redis.functionLoad(
+	 *   "#!lua name=counters\n" +
+	 *     "redis.register_function('bump', function(keys) return redis.call('INCR', keys[1]) end)",
+	 *   { replace: true },
+	 * );
+	 * const count = await redis.fcall("bump", ["counter"], []);
+	 * ```
+	 */
+	functionLoad(code: string, opts?: FunctionLoadOpts): Promise<BulkString>;
+	functionRestore(
+		serializedValue: Binary,
+		policy?: FunctionRestorePolicy,
+	): Promise<SimpleString>;
+	functionStats(): Promise<FunctionStatsReply>;
+
 	// Transactions
 	discard(): Promise<SimpleString>;
 	exec(): Promise<ConditionalArray>;
 	multi(): Promise<SimpleString>;
 	unwatch(): Promise<SimpleString>;
 	watch(...keys: string[]): Promise<SimpleString>;
+	/**
+	 * Runs `fn` with `keys` watched on a dedicated connection and sends the
+	 * commands it queues on `tx.queue` with `MULTI`/`EXEC`. `fn` is run again
+	 * when a watched key was modified, at most `maxRetries` times.
+	 *
+	 * ```ts
+	 * await redis.transaction(["stock:1"], async (tx) => {
+	 *   const stock = Number(await tx.get("stock:1"));
+	 *   if (stock < 1) throw new Error("Out of stock");
+	 *   tx.queue.set("stock:1", stock - 1);
+	 * });
+	 * ```
+	 */
+	transaction(
+		keys: string[],
+		fn: TransactionCallback,
+		options?: TransactionOptions,
+	): Promise<RawOrError[]>;
 
 	// Pipeline
 	tx(): RedisPipeline;
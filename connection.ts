@@ -1,5 +1,5 @@
-import { sendCommand } from "./protocol/mod.ts";
-import type { Raw, RedisValue } from "./protocol/mod.ts";
+import { BufferedReader, sendCommand } from "./protocol/mod.ts";
+import type { ProtocolVersion, Raw, RedisValue } from "./protocol/mod.ts";
 import type { Backoff } from "./backoff.ts";
 import { exponentialBackoff } from "./backoff.ts";
 import { AuthenticationError, ErrorReplyError } from "./errors.ts";
@@ -10,7 +10,15 @@ type Closer = { close: () => void };
 
 export interface Connection {
 	closer: Closer;
+	/**
+	 * The raw readable stream of the socket. It is locked by `bufferedReader`,
+	 * which must be used to read replies.
+	 */
 	reader: ReadableStream<Uint8Array>;
+	/**
+	 * Long-lived buffered reader which keeps over-read bytes across replies.
+	 */
+	bufferedReader: BufferedReader;
 	writer: WritableStream<Uint8Array>;
 	maxRetryCount: number;
 	isClosed: boolean;
@@ -19,6 +27,11 @@ export interface Connection {
 	close(): void;
 	connect(): Promise<void>;
 	reconnect(): Promise<void>;
+	/**
+	 * Creates a new connection to the same server with the same options. It
+	 * is not connected yet.
+	 */
+	duplicate(): Connection;
 }
 
 export interface RedisConnectionOptions {
@@ -32,17 +45,27 @@ export interface RedisConnectionOptions {
 	 */
 	maxRetryCount?: number;
 	backoff?: Backoff;
+	/**
+	 * The RESP protocol version to speak. When `3` is specified,
+	 * `HELLO 3` is sent on connect and replies are decoded as RESP3
+	 * (maps, sets, doubles, booleans, ...). Typed commands keep the reply
+	 * shape they have under RESP2, while `hgetallMap()` and `configGetMap()`
+	 * return maps under either version.
+	 * @default 2
+	 */
+	protocol?: ProtocolVersion;
 }
 
 export class RedisConnection implements Connection {
 	name: string | null = null;
 	closer!: Closer;
 	reader!: ReadableStream<Uint8Array>;
+	bufferedReader!: BufferedReader;
 	writer!: WritableStream<Uint8Array>;
 	maxRetryCount = 10;
 
-	private readonly hostname: string;
-	private readonly port: number | string;
+	protected hostname: string;
+	protected port: number | string;
 	private retryCount = 0;
 	private _isClosed = false;
 	private _isConnected = false;
@@ -95,6 +118,31 @@ export class RedisConnection implements Connection {
 		}
 	}
 
+	private async hello(
+		protocol: ProtocolVersion,
+		username: string | undefined,
+		password: string | undefined,
+	): Promise<void> {
+		const args: RedisValue[] = [protocol];
+		if (password != null) {
+			args.push("AUTH", username ?? "default", password);
+		}
+		try {
+			await this.sendCommand("HELLO", ...args);
+		} catch (error) {
+			if (
+				error instanceof ErrorReplyError &&
+				/^-(WRONGPASS|NOAUTH)/.test(error.message)
+			) {
+				throw new AuthenticationError("Authentication failed", {
+					cause: error,
+				});
+			} else {
+				throw error;
+			}
+		}
+	}
+
 	private async selectDb(
 		db: number | undefined = this.options.db,
 	): Promise<void> {
@@ -102,11 +150,16 @@ export class RedisConnection implements Connection {
 		await this.sendCommand("SELECT", db);
 	}
 
-	private async sendCommand(
+	protected async sendCommand(
 		command: string,
 		...args: Array<RedisValue>
 	): Promise<Raw> {
-		const reply = await sendCommand(this.writer, this.reader, command, ...args);
+		const reply = await sendCommand(
+			this.writer,
+			this.bufferedReader,
+			command,
+			...args,
+		);
 		return reply.value();
 	}
 
@@ -125,12 +178,19 @@ export class RedisConnection implements Connection {
 
 			this.closer = conn;
 			this.reader = conn.readable;
+			this.bufferedReader = new BufferedReader(conn.readable);
 			this.writer = conn.writable;
 			this._isClosed = false;
 			this._isConnected = true;
 
 			try {
-				if (this.options.password != null) {
+				if (this.options.protocol === 3) {
+					await this.hello(
+						this.options.protocol,
+						this.options.username,
+						this.options.password,
+					);
+				} else if (this.options.password != null) {
 					await this.authenticate(this.options.username, this.options.password);
 				}
 				if (this.options.db) {
@@ -139,8 +199,9 @@ export class RedisConnection implements Connection {
 				if (this.name) {
 					await this.sendCommand("CLIENT", "SETNAME", this.name);
 				}
+				await this.verify();
 			} catch (error) {
-				this.close();
+				this.disconnect();
 				throw error;
 			}
 			this.retryCount = 0;
@@ -161,8 +222,24 @@ export class RedisConnection implements Connection {
 		}
 	}
 
+	/**
+	 * Called once the connection is set up. Throwing closes the connection and
+	 * retries with backoff.
+	 */
+	protected verify(): Promise<void> {
+		return Promise.resolve();
+	}
+
 	close() {
 		this._isClosed = true;
+		this.disconnect();
+	}
+
+	/**
+	 * Drops the socket without disposing the connection, which can then be
+	 * connected again.
+	 */
+	protected disconnect() {
 		this._isConnected = false;
 		try {
 			this.closer?.close();
@@ -171,6 +248,10 @@ export class RedisConnection implements Connection {
 		}
 	}
 
+	duplicate(): Connection {
+		return new RedisConnection(this.hostname, this.port, this.options);
+	}
+
 	async reconnect(): Promise<void> {
 		if (this.isClosed) {
 			throw new Error("Client is closed.");
@@ -180,7 +261,7 @@ export class RedisConnection implements Connection {
 			this._isConnected = true;
 		} catch (error) {
 			console.error("Connection lost, attempting to reconnect...", error);
-			this.close();
+			this.disconnect();
 			await this.connect();
 			await this.sendCommand("PING");
 		}
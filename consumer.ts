@@ -0,0 +1,393 @@
+import { deadLetterMessages } from "./deadletter.ts";
+import type { DeadLetterOptions } from "./deadletter.ts";
+import { ErrorReplyError } from "./errors.ts";
+import type { CommandExecutor } from "./executor.ts";
+import { create } from "./redis.ts";
+import type { Redis } from "./redis.ts";
+import { xidstr } from "./stream.ts";
+import type { XId, XIdInput, XMessage } from "./stream.ts";
+import { logHandlerError } from "./utils.ts";
+
+export type StreamMessageHandler = (
+	message: XMessage,
+	key: string,
+) => void | Promise<void>;
+
+export interface StreamConsumerOptions {
+	/**
+	 * The stream, or streams, to consume.
+	 */
+	key: string | string[];
+	group: string;
+	consumer: string;
+	/**
+	 * Called for each message. The message is acknowledged once the handler
+	 * returns, and left pending if it throws.
+	 */
+	handler: StreamMessageHandler;
+	/**
+	 * Called with the errors thrown by `handler`, which are otherwise logged
+	 * with `console.error()`.
+	 */
+	onError?: (error: unknown, message: XMessage, key: string) => void;
+	/**
+	 * How many messages are read at once.
+	 * @default 10
+	 */
+	batchSize?: number;
+	/**
+	 * How long a read waits for new messages, in milliseconds.
+	 * @default 5000
+	 */
+	blockMs?: number;
+	/**
+	 * How many messages are handled at the same time.
+	 * @default 1
+	 */
+	concurrency?: number;
+	/**
+	 * The ID from which a missing group is created.
+	 * @default "$"
+	 */
+	startId?: XIdInput | "$";
+	/**
+	 * Stops the consumer when aborted.
+	 */
+	signal?: AbortSignal;
+}
+
+export interface StreamConsumer {
+	readonly isClosed: boolean;
+	/**
+	 * Resolves once the consumer has stopped and the running handlers have
+	 * returned. Rejects if reading from the streams failed.
+	 */
+	readonly done: Promise<void>;
+	/**
+	 * Stops reading new messages. Messages which were read but not handled yet
+	 * are left pending.
+	 */
+	stop(): Promise<void>;
+}
+
+class StreamConsumerImpl implements StreamConsumer {
+	readonly done: Promise<void>;
+	private readonly keys: string[];
+	private readonly reader: Redis;
+	private readonly running = new Set<Promise<void>>();
+	private closed = false;
+
+	get isClosed(): boolean {
+		return this.closed;
+	}
+
+	constructor(
+		private readonly redis: Redis,
+		private readonly executor: CommandExecutor,
+		private readonly options: StreamConsumerOptions,
+	) {
+		this.keys = typeof options.key === "string" ? [options.key] : options.key;
+		this.reader = create(executor);
+		options.signal?.addEventListener("abort", () => this.stop(), {
+			once: true,
+		});
+		this.done = this.consume();
+		// Failures are reported to the callers awaiting `done`, if any.
+		this.done.catch(() => {});
+		if (options.signal?.aborted) {
+			this.stop();
+		}
+	}
+
+	stop(): Promise<void> {
+		if (!this.closed) {
+			this.closed = true;
+			// Interrupts the blocking read.
+			this.executor.close();
+		}
+		return this.done.catch(() => {});
+	}
+
+	private async consume(): Promise<void> {
+		const {
+			group,
+			consumer,
+			batchSize = 10,
+			blockMs = 5000,
+			concurrency = 1,
+		} = this.options;
+		const queue: Array<[XMessage, string]> = [];
+		try {
+			while (!this.closed) {
+				if (queue.length === 0) {
+					let streams;
+					try {
+						streams = await this.reader.xreadgroup(
+							this.keys.map((key) => ({ key, xid: ">" })),
+							{ group, consumer, count: batchSize, block: blockMs },
+						);
+					} catch (error) {
+						if (this.closed) break;
+						throw error;
+					}
+					for (const { key, messages } of streams) {
+						for (const message of messages) {
+							queue.push([message, key]);
+						}
+					}
+					continue;
+				}
+				while (queue.length > 0 && this.running.size < concurrency) {
+					const [message, key] = queue.shift()!;
+					const handling = this.handle(message, key).finally(() => {
+						this.running.delete(handling);
+					});
+					this.running.add(handling);
+				}
+				if (this.running.size >= concurrency) {
+					await Promise.race(this.running);
+				}
+			}
+		} finally {
+			this.closed = true;
+			this.executor.close();
+			await Promise.all(this.running);
+		}
+	}
+
+	private handle(message: XMessage, key: string): Promise<void> {
+		return handleMessage(this.redis, this.options, message, key);
+	}
+}
+
+export interface StreamReclaimerOptions {
+	/**
+	 * The stream, or streams, whose pending messages are reclaimed.
+	 */
+	key: string | string[];
+	group: string;
+	/**
+	 * The consumer which claims the messages.
+	 */
+	consumer: string;
+	/**
+	 * Called for each claimed message. The message is acknowledged once the
+	 * handler returns, and left pending if it throws.
+	 */
+	handler: StreamMessageHandler;
+	/**
+	 * Called with the errors thrown by `handler`, like
+	 * `StreamConsumerOptions.onError`.
+	 */
+	onError?: (error: unknown, message: XMessage, key: string) => void;
+	/**
+	 * How long a message must have been pending, in milliseconds, before it
+	 * is claimed from the consumer it was delivered to.
+	 */
+	minIdleTime: number;
+	/**
+	 * How long to wait between two sweeps, in milliseconds.
+	 * @default minIdleTime
+	 */
+	intervalMs?: number;
+	/**
+	 * How many pending entries are scanned by each `XAUTOCLAIM`.
+	 * @default 100
+	 */
+	count?: number;
+	/**
+	 * When set, the idle messages delivered more than `maxDeliveries` times
+	 * are moved to a dead-letter stream before each sweep instead of being
+	 * claimed again.
+	 */
+	deadLetter?: Pick<DeadLetterOptions, "maxDeliveries" | "deadLetterKey">;
+	/**
+	 * Stops the reclaimer when aborted.
+	 */
+	signal?: AbortSignal;
+}
+
+export interface StreamReclaimer {
+	readonly isClosed: boolean;
+	/**
+	 * Resolves once the reclaimer has stopped and the running handler has
+	 * returned. Rejects if claiming messages failed.
+	 */
+	readonly done: Promise<void>;
+	/**
+	 * Stops after the message being handled, if any.
+	 */
+	stop(): Promise<void>;
+}
+
+class StreamReclaimerImpl implements StreamReclaimer {
+	readonly done: Promise<void>;
+	private readonly keys: string[];
+	private closed = false;
+	private timer?: ReturnType<typeof setTimeout>;
+	private wake?: () => void;
+
+	get isClosed(): boolean {
+		return this.closed;
+	}
+
+	constructor(
+		private readonly redis: Redis,
+		private readonly options: StreamReclaimerOptions,
+	) {
+		this.keys = typeof options.key === "string" ? [options.key] : options.key;
+		options.signal?.addEventListener("abort", () => this.stop(), {
+			once: true,
+		});
+		this.done = this.run();
+		// Failures are reported to the callers awaiting `done`, if any.
+		this.done.catch(() => {});
+		if (options.signal?.aborted) {
+			this.stop();
+		}
+	}
+
+	stop(): Promise<void> {
+		if (!this.closed) {
+			this.closed = true;
+			clearTimeout(this.timer);
+			this.wake?.();
+		}
+		return this.done.catch(() => {});
+	}
+
+	private async run(): Promise<void> {
+		const { minIdleTime, intervalMs = minIdleTime } = this.options;
+		try {
+			while (!this.closed) {
+				for (const key of this.keys) {
+					await this.sweep(key);
+				}
+				await new Promise<void>((resolve) => {
+					this.wake = resolve;
+					if (!this.closed) {
+						this.timer = setTimeout(resolve, intervalMs);
+					} else {
+						resolve();
+					}
+				});
+			}
+		} finally {
+			this.closed = true;
+		}
+	}
+
+	// Claims the idle messages of `key` with `XAUTOCLAIM`, until the whole
+	// pending entries list was scanned.
+	private async sweep(key: string): Promise<void> {
+		const { group, consumer, minIdleTime, count = 100, deadLetter } =
+			this.options;
+		if (deadLetter) {
+			await deadLetterMessages(this.redis, {
+				key,
+				group,
+				minIdleTime,
+				count,
+				...deadLetter,
+			});
+		}
+		let start: XId = { unixMs: 0, seqNo: 0 };
+		do {
+			const reply = await this.redis.xautoclaim(
+				key,
+				group,
+				consumer,
+				minIdleTime,
+				start,
+				{ count },
+			);
+			if (reply.kind !== "messages") break;
+			for (const message of reply.messages) {
+				if (this.closed) return;
+				await handleMessage(this.redis, this.options, message, key);
+			}
+			start = reply.nextId;
+		} while (!this.closed && (start.unixMs !== 0 || start.seqNo !== 0));
+	}
+}
+
+async function handleMessage(
+	redis: Redis,
+	options: StreamConsumerOptions | StreamReclaimerOptions,
+	message: XMessage,
+	key: string,
+): Promise<void> {
+	const { handler, onError = logError, group } = options;
+	try {
+		await handler(message, key);
+	} catch (error) {
+		onError(error, message, key);
+		return;
+	}
+	try {
+		await redis.xack(key, group, message.xid);
+	} catch (error) {
+		// The message stays pending and can be claimed again.
+		onError(error, message, key);
+	}
+}
+
+function logError(error: unknown, message: XMessage, key: string): void {
+	logHandlerError(
+		`Failed to handle message ${xidstr(message.xid)} of stream ${key}`,
+		error,
+	);
+}
+
+/**
+ * Creates `options.group` if it is missing, then reads new messages for
+ * `options.consumer` with `XREADGROUP` on `executor`, which is closed by the
+ * consumer. Messages are acknowledged with `redis`.
+ */
+export async function createStreamConsumer(
+	redis: Redis,
+	executor: CommandExecutor,
+	options: StreamConsumerOptions,
+): Promise<StreamConsumer> {
+	const keys = typeof options.key === "string" ? [options.key] : options.key;
+	for (const key of keys) {
+		try {
+			await redis.xgroupCreate(
+				key,
+				options.group,
+				options.startId ?? "$",
+				true,
+			);
+		} catch (error) {
+			if (
+				!(error instanceof ErrorReplyError) ||
+				!/^-?BUSYGROUP/.test(error.message)
+			) {
+				throw error;
+			}
+		}
+	}
+	return new StreamConsumerImpl(redis, executor, options);
+}
+
+/**
+ * Periodically claims the messages which have been pending for longer than
+ * `options.minIdleTime`, e.g. because the consumer they were delivered to
+ * crashed, and hands them to `options.handler`.
+ *
+ * ```ts
+ * const reclaimer = createStreamReclaimer(redis, {
+ *   key: "orders",
+ *   group: "billing",
+ *   consumer: "worker-1",
+ *   minIdleTime: 60_000,
+ *   handler: async ({ fieldValues }) => await bill(fieldValues),
+ * });
+ * ```
+ */
+export function createStreamReclaimer(
+	redis: Redis,
+	options: StreamReclaimerOptions,
+): StreamReclaimer {
+	return new StreamReclaimerImpl(redis, options);
+}
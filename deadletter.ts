@@ -0,0 +1,200 @@
+import type { Redis } from "./redis.ts";
+import { parseXId, xidstr } from "./stream.ts";
+import type {
+	XId,
+	XIdExclusive,
+	XIdInput,
+	XIdNeg,
+	XIdPos,
+	XMessage,
+} from "./stream.ts";
+
+// The fields added to the original fields of a dead-lettered message.
+const SOURCE_FIELD = "dead-letter:source";
+const ID_FIELD = "dead-letter:id";
+const GROUP_FIELD = "dead-letter:group";
+const CONSUMER_FIELD = "dead-letter:consumer";
+const DELIVERIES_FIELD = "dead-letter:deliveries";
+const TIME_FIELD = "dead-letter:time";
+
+export interface DeadLetterOptions {
+	/**
+	 * The stream whose pending messages are checked.
+	 */
+	key: string;
+	group: string;
+	/**
+	 * Messages delivered more than this many times are dead-lettered.
+	 */
+	maxDeliveries: number;
+	/**
+	 * The stream to which the messages are copied.
+	 * @default `${key}:dead-letter`
+	 */
+	deadLetterKey?: string;
+	/**
+	 * Only dead-letters the messages idle for at least this many milliseconds,
+	 * so that a message which is being handled is left alone.
+	 */
+	minIdleTime?: number;
+	/**
+	 * How many pending entries are read by each `XPENDING`.
+	 * @default 100
+	 */
+	count?: number;
+}
+
+export interface DeadLetter {
+	/**
+	 * The XId of the entry in the dead-letter stream.
+	 */
+	xid: XId;
+	/**
+	 * The fields of the original message.
+	 */
+	fieldValues: Record<string, string>;
+	source: string;
+	sourceXId: XId;
+	group: string;
+	/**
+	 * The consumer to which the message was last delivered.
+	 */
+	consumer: string;
+	deliveries: number;
+	/**
+	 * Unix time in milliseconds at which the message was dead-lettered.
+	 */
+	deadLetteredAt: number;
+}
+
+export interface DeadLetterRangeOptions {
+	start?: XIdNeg;
+	end?: XIdPos;
+	count?: number;
+}
+
+/**
+ * Copies the pending messages of `options.group` which were delivered more
+ * than `options.maxDeliveries` times to the dead-letter stream, with where
+ * they came from, then acknowledges them. Pending entries whose message was
+ * deleted from the stream are only acknowledged.
+ *
+ * A message is copied before it is acknowledged, so it can be dead-lettered
+ * twice if the connection is lost in between.
+ */
+export async function deadLetterMessages(
+	redis: Redis,
+	options: DeadLetterOptions,
+): Promise<DeadLetter[]> {
+	const {
+		key,
+		group,
+		maxDeliveries,
+		deadLetterKey = `${key}:dead-letter`,
+		minIdleTime,
+		count = 100,
+	} = options;
+	const deadLetters: DeadLetter[] = [];
+	let start: XId | "-" | XIdExclusive = "-";
+	while (true) {
+		const pending = await redis.xpendingCount(key, group, {
+			start,
+			end: "+",
+			count,
+			idle: minIdleTime,
+		});
+		for (const { xid, owner, timesDelivered } of pending) {
+			if (timesDelivered <= maxDeliveries) continue;
+			const [message] = await redis.xrange(key, xid, xid);
+			if (message) {
+				const deadLetteredAt = Date.now();
+				const deadLetterXId = await redis.xadd(deadLetterKey, "*", {
+					...message.fieldValues,
+					[SOURCE_FIELD]: key,
+					[ID_FIELD]: xidstr(xid),
+					[GROUP_FIELD]: group,
+					[CONSUMER_FIELD]: owner,
+					[DELIVERIES_FIELD]: timesDelivered,
+					[TIME_FIELD]: deadLetteredAt,
+				});
+				deadLetters.push({
+					xid: deadLetterXId,
+					fieldValues: message.fieldValues,
+					source: key,
+					sourceXId: xid,
+					group,
+					consumer: owner,
+					deliveries: timesDelivered,
+					deadLetteredAt,
+				});
+			}
+			await redis.xack(key, group, xid);
+		}
+		if (pending.length < count) break;
+		start = `(${xidstr(pending[pending.length - 1].xid)}`;
+	}
+	return deadLetters;
+}
+
+/**
+ * Lists the entries of a dead-letter stream, oldest first.
+ */
+export async function listDeadLetters(
+	redis: Redis,
+	deadLetterKey: string,
+	options: DeadLetterRangeOptions = {},
+): Promise<DeadLetter[]> {
+	const { start = "-", end = "+", count } = options;
+	const messages = await redis.xrange(deadLetterKey, start, end, count);
+	return messages.map(parseDeadLetter);
+}
+
+/**
+ * Adds the given dead-lettered messages, or all of them, back to the streams
+ * they came from with their original fields, and removes them from the
+ * dead-letter stream. Returns the XIds of the added messages.
+ */
+export async function replayDeadLetters(
+	redis: Redis,
+	deadLetterKey: string,
+	xids?: XIdInput[],
+): Promise<XId[]> {
+	const deadLetters = xids === undefined
+		? await listDeadLetters(redis, deadLetterKey)
+		: (await Promise.all(
+			xids.map((xid) =>
+				listDeadLetters(redis, deadLetterKey, {
+					start: xid,
+					end: xid,
+				})
+			),
+		)).flat();
+	const replayed: XId[] = [];
+	for (const { xid, fieldValues, source } of deadLetters) {
+		replayed.push(await redis.xadd(source, "*", fieldValues));
+		await redis.xdel(deadLetterKey, xid);
+	}
+	return replayed;
+}
+
+function parseDeadLetter({ xid, fieldValues }: XMessage): DeadLetter {
+	const {
+		[SOURCE_FIELD]: source = "",
+		[ID_FIELD]: sourceXId = "0-0",
+		[GROUP_FIELD]: group = "",
+		[CONSUMER_FIELD]: consumer = "",
+		[DELIVERIES_FIELD]: deliveries = "0",
+		[TIME_FIELD]: time = "0",
+		...original
+	} = fieldValues;
+	return {
+		xid,
+		fieldValues: original,
+		source,
+		sourceXId: parseXId(sourceXId),
+		group,
+		consumer,
+		deliveries: parseInt(deliveries, 10),
+		deadLetteredAt: parseInt(time, 10),
+	};
+}
@@ -4,10 +4,21 @@ export class ConnectionClosedError extends Error {}
 
 export class SubscriptionClosedError extends Error {}
 
+export class SubscriptionOverflowError extends Error {}
+
 export class ErrorReplyError extends Error {}
 
 export class AuthenticationError extends Error {}
 
+export class PoolTimeoutError extends Error {}
+
+/**
+ * Thrown when `EXEC` did not run the transaction. The `cause` is the
+ * `EXECABORT` error reply if a command was rejected while being queued,
+ * otherwise a watched key was modified.
+ */
+export class TransactionAbortedError extends Error {}
+
 export class InvalidStateError extends Error {
 	constructor(message?: string) {
 		const base = "Invalid state";
@@ -1,7 +1,7 @@
 import type { Connection } from "./connection.ts";
-import { ConnectionClosedError, EOFError } from "./errors.ts";
-import { sendCommand } from "./protocol/mod.ts";
-import type { RedisReply, RedisValue } from "./protocol/mod.ts";
+import { ConnectionClosedError, EOFError, ErrorReplyError } from "./errors.ts";
+import { readReply, skipPushReplies, writeCommands } from "./protocol/mod.ts";
+import type { BufferedReader, RedisReply, RedisValue } from "./protocol/mod.ts";
 
 export interface CommandExecutor {
 	readonly connection: Connection;
@@ -10,17 +10,39 @@ export interface CommandExecutor {
 		...args: RedisValue[]
 	): Promise<RedisReply>;
 
+	/**
+	 * Writes `commands` at once and reads all of their replies with `read`,
+	 * without interleaving the commands of other callers, e.g. to send a
+	 * pipeline or a transaction.
+	 */
+	execBatch<T>(commands: Command[], read: BatchReader<T>): Promise<T>;
+
 	/**
 	 * Closes a redis connection.
 	 */
 	close(): void;
 }
 
-type QueuedCommand = {
+export interface Command {
 	command: string;
 	args: RedisValue[];
-	promise: Promise<RedisReply>;
-	resolve: (value: RedisReply) => void;
+}
+
+/**
+ * Reads the replies of a batch of commands. An `ErrorReplyError` may only be
+ * thrown once every reply was read, any other error closes the connection.
+ */
+export type BatchReader<T> = (reader: BufferedReader) => Promise<T>;
+
+type QueuedCommand = {
+	// A single command, or the commands of a batch.
+	commands: Command[];
+	read: BatchReader<unknown>;
+	// Whether the commands are sent again if the connection is re-established
+	// before they got their replies. A batch may be a transaction whose
+	// watched keys are not watched on the new connection.
+	retry: boolean;
+	resolve: (value: unknown) => void;
 	reject: (reason?: unknown) => void;
 };
 
@@ -39,74 +61,223 @@ function isRetriableError(error: unknown, connection: Connection): boolean {
 	);
 }
 
+export interface MuxExecutorOptions {
+	/**
+	 * The maximum number of commands which may be written to the connection
+	 * while still waiting for their replies.
+	 * @default 256
+	 */
+	maxInFlight?: number;
+	/**
+	 * Coalesces the commands issued in the same event loop tick, or within
+	 * the given window, into a single write instead of writing every command
+	 * as soon as it is issued.
+	 * @default false
+	 */
+	autoPipeline?: boolean | AutoPipelineOptions;
+}
+
+export interface AutoPipelineOptions {
+	/**
+	 * How long to wait for more commands after the first one is issued, in
+	 * microseconds. Timers have a resolution of about a millisecond. With `0`,
+	 * the commands issued in the current tick are written together.
+	 * @default 0
+	 */
+	windowMicros?: number;
+}
+
+/**
+ * Writes commands as soon as they are queued and matches the replies to the
+ * callers in FIFO order, so concurrent callers share one connection without
+ * waiting for each other's round trips.
+ */
 export class MuxExecutor implements CommandExecutor {
+	// Commands waiting to be written to the connection.
 	private queue: QueuedCommand[] = [];
-	private isProcessing = false;
+	// Commands written to the connection and waiting for their replies.
+	private inFlight: QueuedCommand[] = [];
+	private readonly maxInFlight: number;
+	// The batching window in microseconds, or null when auto-pipelining is off.
+	private readonly autoPipelineWindow: number | null;
+	private isWriteScheduled = false;
+	private isWriting = false;
+	private isReading = false;
+	private recovering: Promise<void> | null = null;
 
-	constructor(readonly connection: Connection) {}
+	constructor(
+		readonly connection: Connection,
+		options: MuxExecutorOptions = {},
+	) {
+		this.maxInFlight = options.maxInFlight ?? 256;
+		const { autoPipeline = false } = options;
+		this.autoPipelineWindow = autoPipeline === false
+			? null
+			: autoPipeline === true
+			? 0
+			: autoPipeline.windowMicros ?? 0;
+	}
 
 	exec(
 		command: string,
 		...args: RedisValue[]
 	): Promise<RedisReply> {
+		return this.enqueue([{ command, args }], readReply, true);
+	}
+
+	execBatch<T>(commands: Command[], read: BatchReader<T>): Promise<T> {
+		return this.enqueue(commands, read, false);
+	}
+
+	close(): void {
+		this.connection.close();
+	}
+
+	private enqueue<T>(
+		commands: Command[],
+		read: BatchReader<T>,
+		retry: boolean,
+	): Promise<T> {
 		if (this.connection.isClosed) {
 			return Promise.reject(new ConnectionClosedError("Connection is closed"));
 		}
 
-		const { promise, resolve, reject } = Promise.withResolvers<RedisReply>();
-		this.queue.push({ command, args, promise, resolve, reject });
-		if (!this.isProcessing) {
-			this.dequeue();
+		const { promise, resolve, reject } = Promise.withResolvers<T>();
+		this.queue.push({
+			commands,
+			read,
+			retry,
+			resolve: resolve as (value: unknown) => void,
+			reject,
+		});
+		if (this.autoPipelineWindow === null) {
+			this.write();
+		} else {
+			this.scheduleWrite(this.autoPipelineWindow);
 		}
 		return promise;
 	}
 
-	close(): void {
-		this.connection.close();
+	private scheduleWrite(windowMicros: number): void {
+		if (this.isWriteScheduled) return;
+		this.isWriteScheduled = true;
+		const write = () => {
+			this.isWriteScheduled = false;
+			this.write();
+		};
+		if (windowMicros > 0) {
+			setTimeout(write, windowMicros / 1000);
+		} else {
+			queueMicrotask(write);
+		}
 	}
 
-	private async dequeue(): Promise<void> {
-		if (this.isProcessing) return;
+	private async write(): Promise<void> {
+		if (this.isWriting || this.recovering) return;
+		this.isWriting = true;
 
-		const item = this.queue[0];
-		if (!item) {
-			this.isProcessing = false;
-			return;
+		try {
+			while (this.canWrite()) {
+				// With auto-pipelining, every queued command which fits is written
+				// at once.
+				const items = this.autoPipelineWindow === null
+					? [this.queue.shift()!]
+					: this.queue.splice(0, this.maxInFlight - this.inFlight.length);
+				// Register the commands before writing them so that their replies
+				// are always matched in the order the commands hit the wire.
+				this.inFlight.push(...items);
+				await writeCommands(
+					this.connection.writer,
+					items.flatMap(({ commands }) => commands),
+				);
+				this.read();
+			}
+		} catch (error) {
+			await this.recover(error);
+		} finally {
+			this.isWriting = false;
+			// Commands may have been queued while recovering.
+			if (this.canWrite() && !this.recovering) {
+				this.write();
+			}
 		}
+	}
+
+	private canWrite(): boolean {
+		return this.queue.length > 0 && this.inFlight.length < this.maxInFlight;
+	}
 
-		this.isProcessing = true;
+	private async read(): Promise<void> {
+		if (this.isReading || this.recovering) return;
+		this.isReading = true;
 
 		try {
-			const reply = await sendCommand(
-				this.connection.writer,
-				this.connection.reader,
-				item.command,
-				...item.args,
-			);
-			item.resolve(reply);
-			this.queue.shift(); // Command succeeded, remove from queue.
-		} catch (error) {
-			if (
-				this.connection.maxRetryCount > 0 &&
-				isRetriableError(error, this.connection)
-			) {
+			while (this.inFlight.length > 0) {
+				const reader = this.connection.bufferedReader;
+				// Push frames are not replies, so they are not matched to a caller.
+				await skipPushReplies(reader);
+				let reply: unknown;
 				try {
-					await this.connection.reconnect();
-					// Don't shift the item from the queue, we will retry it.
-				} catch (reconnectError) {
-					item.reject(reconnectError);
-					this.queue.shift(); // Reconnect failed, reject and remove.
+					reply = await this.inFlight[0].read(reader);
+				} catch (error) {
+					if (error instanceof ErrorReplyError) {
+						// The error reply was fully consumed, along with the rest of the
+						// aggregate it was nested in, so the stream is still in sync.
+						this.inFlight.shift()!.reject(error);
+						this.write();
+						continue;
+					}
+					throw error;
 				}
-			} else {
-				item.reject(error);
-				this.queue.shift(); // Non-retriable error, reject and remove.
+				this.inFlight.shift()!.resolve(reply);
+				// A slot is freed for the queued commands.
+				this.write();
+			}
+		} catch (error) {
+			if (!isRetriableError(error, this.connection)) {
+				// A reply was left partially read, so the next replies can no
+				// longer be matched to their commands.
+				this.connection.close();
 			}
+			await this.recover(error);
 		} finally {
-			this.isProcessing = false;
-			// Process next item in queue, which might be the retried item or a new one.
-			if (this.queue.length > 0) {
-				this.dequeue();
+			this.isReading = false;
+			if (this.inFlight.length > 0 && !this.recovering) {
+				this.read();
+			}
+		}
+	}
+
+	private recover(error: unknown): Promise<void> {
+		this.recovering ??= this.reconnectOrReject(error).finally(() => {
+			this.recovering = null;
+			// Process the retried commands, or the ones queued in the meantime.
+			this.write();
+		});
+		return this.recovering;
+	}
+
+	private async reconnectOrReject(error: unknown): Promise<void> {
+		// Replies of the in-flight commands are lost along with the stream.
+		const inFlight = this.inFlight.splice(0);
+		if (
+			this.connection.maxRetryCount > 0 &&
+			isRetriableError(error, this.connection)
+		) {
+			try {
+				await this.connection.reconnect();
+				// Retry the commands which did not get a reply.
+				this.queue.unshift(...inFlight.filter(({ retry }) => retry));
+				for (const item of inFlight) {
+					if (!item.retry) item.reject(error);
+				}
+				return;
+			} catch (reconnectError) {
+				error = reconnectError;
 			}
 		}
+		for (const item of inFlight) {
+			item.reject(error);
+		}
 	}
 }
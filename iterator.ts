@@ -0,0 +1,94 @@
+import type { Redis } from "./redis.ts";
+import { xidstr } from "./stream.ts";
+import type { XIdInput, XIdNeg, XIdPos, XMessage } from "./stream.ts";
+
+export interface StreamIteratorOptions {
+	/**
+	 * Yields the messages added after this XId. With `"$"`, only the messages
+	 * added once the iterator has started are yielded.
+	 * @default "$"
+	 */
+	from?: XIdInput | "$";
+	/**
+	 * How long each `XREAD` waits for new messages, in milliseconds. The
+	 * iterator keeps reading until it is returned from.
+	 * @default 5000
+	 */
+	blockMs?: number;
+	/**
+	 * How many messages are read at once.
+	 */
+	count?: number;
+}
+
+/**
+ * Yields the messages added to the stream `key` with `XREAD`, starting after
+ * `options.from`. `reader` must not be shared, since the reads block it.
+ */
+export async function* readStream(
+	reader: Redis,
+	key: string,
+	options: StreamIteratorOptions = {},
+): AsyncIterableIterator<XMessage> {
+	const { from = "$", blockMs = 5000, count } = options;
+	let lastId: XIdInput;
+	if (from === "$") {
+		// Reading from "$" again after a read timed out would skip the messages
+		// added in between, so start after the current last message instead.
+		const [last] = await reader.xrevrange(key, "+", "-", 1);
+		lastId = last?.xid ?? 0;
+	} else {
+		lastId = from;
+	}
+	while (true) {
+		const streams = await reader.xread([{ key, xid: lastId }], {
+			block: blockMs,
+			count,
+		});
+		for (const { messages } of streams) {
+			for (const message of messages) {
+				lastId = message.xid;
+				yield message;
+			}
+		}
+	}
+}
+
+/**
+ * Yields the messages of the stream `key` between `start` and `end`, reading
+ * `pageSize` messages at a time with `XRANGE`. Requires Redis 6.2. Throws a
+ * `RangeError` when `pageSize` is not a positive integer.
+ */
+export function rangeStream(
+	redis: Redis,
+	key: string,
+	start: XIdNeg = "-",
+	end: XIdPos = "+",
+	pageSize = 100,
+): AsyncIterableIterator<XMessage> {
+	// Checked before the first page is read, which a generator would defer.
+	if (!Number.isInteger(pageSize) || pageSize < 1) {
+		throw new RangeError(
+			`pageSize must be a positive integer, got ${pageSize}`,
+		);
+	}
+	return readPages(redis, key, start, end, pageSize);
+}
+
+async function* readPages(
+	redis: Redis,
+	key: string,
+	start: XIdNeg,
+	end: XIdPos,
+	pageSize: number,
+): AsyncIterableIterator<XMessage> {
+	let cursor = start;
+	while (true) {
+		const messages = await redis.xrange(key, cursor, end, pageSize);
+		yield* messages;
+		if (messages.length < pageSize) {
+			return;
+		}
+		cursor = `(${xidstr(messages[messages.length - 1].xid)}`;
+	}
+}
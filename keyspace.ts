@@ -0,0 +1,197 @@
+import type { RedisSubscription } from "./pubsub.ts";
+import type { Redis } from "./redis.ts";
+
+/**
+ * The events sent by Redis for keyspace notifications.
+ * @see https://redis.io/docs/latest/develop/use/keyspace-notifications/
+ */
+export type KeyspaceEventType =
+	| "append"
+	| "copy_to"
+	| "del"
+	| "evicted"
+	| "expire"
+	| "expired"
+	| "hdel"
+	| "hexpire"
+	| "hexpired"
+	| "hincrby"
+	| "hincrbyfloat"
+	| "hpersist"
+	| "hset"
+	| "incrby"
+	| "incrbyfloat"
+	| "linsert"
+	| "lpop"
+	| "lpush"
+	| "lrem"
+	| "lset"
+	| "ltrim"
+	| "move_from"
+	| "move_to"
+	| "new"
+	| "persist"
+	| "rename_from"
+	| "rename_to"
+	| "restore"
+	| "rpop"
+	| "rpush"
+	| "sadd"
+	| "sdiffstore"
+	| "set"
+	| "setrange"
+	| "sinterstore"
+	| "spop"
+	| "srem"
+	| "sunionstore"
+	| "xadd"
+	| "xdel"
+	| "xgroup-create"
+	| "xgroup-createconsumer"
+	| "xgroup-delconsumer"
+	| "xgroup-destroy"
+	| "xgroup-setid"
+	| "xsetid"
+	| "xtrim"
+	| "zadd"
+	| "zdiffstore"
+	| "zincr"
+	| "zinterstore"
+	| "zrem"
+	| "zremrangebylex"
+	| "zremrangebyrank"
+	| "zremrangebyscore"
+	| "zunionstore"
+	// Events added by newer Redis versions or modules
+	| (string & Record<never, never>);
+
+export type KeyspaceChannelType = "keyspace" | "keyevent";
+
+export interface KeyspaceNotification {
+	db: number;
+	key: string;
+	event: KeyspaceEventType;
+	/**
+	 * The kind of channel the notification was received on.
+	 */
+	source: KeyspaceChannelType;
+}
+
+export interface KeyspaceNotificationOptions {
+	/**
+	 * The database to listen to, all databases by default.
+	 */
+	db?: number;
+	/**
+	 * Listens to `__keyspace@<db>__:<pattern>` channels, where `pattern`
+	 * matches keys, to `__keyevent@<db>__:<pattern>` channels, where it
+	 * matches events, or to both. Redis publishes to keyspace channels with
+	 * the `K` flag of `notify-keyspace-events` and to keyevent channels with
+	 * the `E` flag, so with `"both"` and both flags, every change is received
+	 * twice, once per `source`.
+	 * @default "keyspace"
+	 */
+	channel?: KeyspaceChannelType | "both";
+	/**
+	 * @default "*"
+	 */
+	pattern?: string;
+	/**
+	 * When set, `notify-keyspace-events` is set to this value with
+	 * `CONFIG SET` before subscribing, e.g. `"KEA"`.
+	 */
+	notifyKeyspaceEvents?: string;
+}
+
+export interface KeyspaceNotifications
+	extends AsyncIterable<KeyspaceNotification> {
+	readonly isClosed: boolean;
+	/**
+	 * The underlying pattern subscription, e.g. to listen to its
+	 * `reconnected` event.
+	 */
+	readonly subscription: RedisSubscription;
+	receive(): AsyncIterableIterator<KeyspaceNotification>;
+	close(): void;
+}
+
+class KeyspaceNotificationsImpl implements KeyspaceNotifications {
+	get isClosed(): boolean {
+		return this.subscription.isClosed;
+	}
+
+	constructor(readonly subscription: RedisSubscription) {}
+
+	[Symbol.asyncIterator](): AsyncIterableIterator<KeyspaceNotification> {
+		return this.receive();
+	}
+
+	async *receive(): AsyncIterableIterator<KeyspaceNotification> {
+		for await (const { channel, message } of this.subscription.receive()) {
+			const notification = parseKeyspaceNotification(channel, message);
+			if (notification) {
+				yield notification;
+			}
+		}
+	}
+
+	close() {
+		this.subscription.close();
+	}
+}
+
+/**
+ * Subscribes to keyspace notifications with `PSUBSCRIBE`.
+ *
+ * ```ts
+ * const notifications = await keyspaceNotifications(redis, {
+ *   db: 0,
+ *   pattern: "session:*",
+ *   notifyKeyspaceEvents: "Kgx",
+ * });
+ * for await (const { key, event } of notifications) {
+ *   if (event === "expired" || event === "del") console.log(`${key} is gone`);
+ * }
+ * ```
+ */
+export async function keyspaceNotifications(
+	redis: Redis,
+	options: KeyspaceNotificationOptions = {},
+): Promise<KeyspaceNotifications> {
+	const {
+		db,
+		channel = "keyspace",
+		pattern = "*",
+		notifyKeyspaceEvents,
+	} = options;
+	if (notifyKeyspaceEvents !== undefined) {
+		await redis.configSet("notify-keyspace-events", notifyKeyspaceEvents);
+	}
+	const types: KeyspaceChannelType[] = channel === "both"
+		? ["keyspace", "keyevent"]
+		: [channel];
+	const subscription = await redis.psubscribe(
+		...types.map((type) => `__${type}@${db ?? "*"}__:${pattern}`),
+	);
+	return new KeyspaceNotificationsImpl(subscription);
+}
+
+const channelPattern = /^__(keyspace|keyevent)@(\d+)__:(.*)$/s;
+
+/**
+ * Parses a message received on a `__keyspace@<db>__:<key>` or
+ * `__keyevent@<db>__:<event>` channel.
+ */
+export function parseKeyspaceNotification(
+	channel: string,
+	message: string,
+): KeyspaceNotification | null {
+	const match = channelPattern.exec(channel);
+	if (!match) {
+		return null;
+	}
+	const [, type, db, name] = match;
+	return type === "keyspace"
+		? { db: parseInt(db, 10), key: name, event: message, source: "keyspace" }
+		: { db: parseInt(db, 10), key: message, event: name, source: "keyevent" };
+}
@@ -1,12 +1,28 @@
 export { okReply } from "./protocol/mod.ts";
 export { connect, create, createLazyClient, parseURL } from "./redis.ts";
+export { createCachedClient } from "./cache.ts";
+export { calculateSlot, connectCluster } from "./cluster.ts";
+export { createStreamReclaimer } from "./consumer.ts";
+export {
+	deadLetterMessages,
+	listDeadLetters,
+	replayDeadLetters,
+} from "./deadletter.ts";
+export { keyspaceNotifications } from "./keyspace.ts";
+export { createPool } from "./pool.ts";
+export { SubscriptionEvent } from "./pubsub.ts";
+export { defineScript } from "./script.ts";
+export { connectSentinel } from "./sentinel.ts";
 export {
 	AuthenticationError,
 	ConnectionClosedError,
 	EOFError,
 	ErrorReplyError,
 	InvalidStateError,
+	PoolTimeoutError,
 	SubscriptionClosedError,
+	SubscriptionOverflowError,
+	TransactionAbortedError,
 } from "./errors.ts";
 export type { Backoff, ExponentialBackoffOptions } from "./backoff.ts";
 export type {
@@ -23,6 +39,13 @@ export type {
 	ClusterFailoverMode,
 	ClusterResetMode,
 	ClusterSetSlotSubcommand,
+	FunctionFlushMode,
+	FunctionInfo,
+	FunctionLibraryInfo,
+	FunctionListOpts,
+	FunctionLoadOpts,
+	FunctionRestorePolicy,
+	FunctionStatsReply,
 	GeoRadiusOpts,
 	GeoUnit,
 	HScanOpts,
@@ -54,26 +77,100 @@ export type {
 	ZUnionstoreOpts,
 } from "./command.ts";
 export type { Connection, RedisConnectionOptions } from "./connection.ts";
-export type { CommandExecutor } from "./executor.ts";
+export type {
+	AutoPipelineOptions,
+	BatchReader,
+	Command,
+	CommandExecutor,
+	MuxExecutorOptions,
+} from "./executor.ts";
+export type {
+	CachedRedis,
+	CachedRedisConnectOptions,
+	ClientCache,
+	ClientCacheMode,
+	ClientCacheOptions,
+	ClientCacheStats,
+} from "./cache.ts";
+export type { ClusterConnectOptions, ClusterNode } from "./cluster.ts";
+export type {
+	KeyspaceChannelType,
+	KeyspaceEventType,
+	KeyspaceNotification,
+	KeyspaceNotificationOptions,
+	KeyspaceNotifications,
+} from "./keyspace.ts";
+export type {
+	StreamConsumer,
+	StreamConsumerOptions,
+	StreamMessageHandler,
+	StreamReclaimer,
+	StreamReclaimerOptions,
+} from "./consumer.ts";
+export type {
+	DeadLetter,
+	DeadLetterOptions,
+	DeadLetterRangeOptions,
+} from "./deadletter.ts";
+export type { StreamIteratorOptions } from "./iterator.ts";
+export type { RedisMonitor, RedisMonitorEntry } from "./monitor.ts";
 export type { RedisPipeline } from "./pipeline.ts";
 export type {
+	SentinelConnectOptions,
+	SentinelNode,
+	SentinelRole,
+} from "./sentinel.ts";
+export type {
+	RedisPool,
+	RedisPoolConnection,
+	RedisPoolOptions,
+} from "./pool.ts";
+export type {
+	BigNumber,
 	Binary,
 	Bulk,
 	BulkNil,
 	BulkString,
 	ConditionalArray,
+	Double,
 	Integer,
+	ProtocolVersion,
 	Raw,
 	RawOrError,
+	RedisMap,
 	RedisReply,
 	RedisValue,
 	SimpleString,
 } from "./protocol/mod.ts";
-export type { RedisPubSubMessage, RedisSubscription } from "./pubsub.ts";
+export type {
+	RedisPubSubMessage,
+	RedisSubscription,
+	RedisSubscriptionEventMap,
+	RedisSubscriptionHandler,
+	RedisSubscriptionReceiveOptions,
+	SubscriptionCounts,
+	SubscriptionKind,
+	SubscriptionOverflowPolicy,
+} from "./pubsub.ts";
 export type { Redis, RedisConnectOptions } from "./redis.ts";
+export type {
+	RedisBoundScript,
+	RedisScript,
+	ScriptDefinition,
+} from "./script.ts";
+export type {
+	RedisTransaction,
+	TransactionCallback,
+	TransactionOptions,
+} from "./transaction.ts";
 export type {
 	StartEndCount,
 	XAddFieldValues,
+	XAddOpts,
+	XAutoClaimJustXId,
+	XAutoClaimMessages,
+	XAutoClaimOpts,
+	XAutoClaimReply,
 	XClaimJustXId,
 	XClaimMessages,
 	XClaimOpts,
@@ -82,7 +179,9 @@ export type {
 	XGroupDetail,
 	XId,
 	XIdAdd,
+	XIdAutoSeq,
 	XIdCreateGroup,
+	XIdExclusive,
 	XIdGroupRead,
 	XIdInput,
 	XIdNeg,
@@ -109,4 +208,5 @@ export type {
 	XReadReplyRaw,
 	XReadStream,
 	XReadStreamRaw,
+	XTrimOpts,
 } from "./stream.ts";
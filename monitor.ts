@@ -0,0 +1,142 @@
+import type { Connection } from "./connection.ts";
+import { EOFError } from "./errors.ts";
+import { readReply, sendCommand } from "./protocol/mod.ts";
+
+export interface RedisMonitorEntry {
+	/**
+	 * Unix time in milliseconds at which the server received the command.
+	 */
+	timestamp: number;
+	db: number;
+	/**
+	 * The address of the client which sent the command, e.g.
+	 * `127.0.0.1:52555`, `unix:/tmp/redis.sock` or `lua`.
+	 */
+	client: string;
+	command: string;
+	args: string[];
+}
+
+export interface RedisMonitor extends AsyncIterable<RedisMonitorEntry> {
+	readonly isClosed: boolean;
+	/**
+	 * Yields the commands processed by the server until the monitor is
+	 * closed or its connection is lost.
+	 */
+	receive(): AsyncIterableIterator<RedisMonitorEntry>;
+	close(): void;
+}
+
+class RedisMonitorImpl implements RedisMonitor {
+	get isClosed(): boolean {
+		return this.connection.isClosed;
+	}
+
+	constructor(private connection: Connection) {}
+
+	[Symbol.asyncIterator](): AsyncIterableIterator<RedisMonitorEntry> {
+		return this.receive();
+	}
+
+	async *receive(): AsyncIterableIterator<RedisMonitorEntry> {
+		while (!this.isClosed) {
+			let line: string;
+			try {
+				const reply = await readReply(this.connection.bufferedReader);
+				line = reply.value() as string;
+			} catch (error) {
+				if (
+					error instanceof EOFError ||
+					error instanceof Deno.errors.BadResource
+				) {
+					// The connection was closed or lost.
+					this.connection.close();
+					break;
+				}
+				throw error;
+			}
+			const entry = parseMonitorEntry(line);
+			if (entry) {
+				yield entry;
+			}
+		}
+	}
+
+	close() {
+		this.connection.close();
+	}
+}
+
+/**
+ * Opens `connection` and switches it to `MONITOR` mode. The connection is only
+ * used by the returned monitor.
+ */
+export async function monitor(connection: Connection): Promise<RedisMonitor> {
+	await connection.connect();
+	try {
+		await sendCommand(connection.writer, connection.bufferedReader, "MONITOR");
+	} catch (error) {
+		connection.close();
+		throw error;
+	}
+	return new RedisMonitorImpl(connection);
+}
+
+const entryPattern = /^(\d+(?:\.\d+)?) \[(\d+) ([^\]]*)\] (.*)$/s;
+
+const escapes: Record<string, string> = {
+	n: "\n",
+	r: "\r",
+	t: "\t",
+	a: "\x07",
+	b: "\b",
+};
+
+/**
+ * Parses a line written by `MONITOR`, e.g.
+ * `1339518083.107412 [0 127.0.0.1:60866] "set" "key" "value"`.
+ */
+export function parseMonitorEntry(line: string): RedisMonitorEntry | null {
+	const match = entryPattern.exec(line);
+	if (!match) {
+		return null;
+	}
+	const [, timestamp, db, client, rest] = match;
+	const [command = "", ...args] = parseQuotedArgs(rest);
+	return {
+		timestamp: Math.floor(parseFloat(timestamp) * 1000),
+		db: parseInt(db, 10),
+		client,
+		command,
+		args,
+	};
+}
+
+// Arguments are quoted and escaped the same way as by `redis-cli`.
+function parseQuotedArgs(input: string): string[] {
+	const args: string[] = [];
+	let i = 0;
+	while (i < input.length) {
+		if (input[i] !== '"') {
+			i++;
+			continue;
+		}
+		let arg = "";
+		for (i++; i < input.length && input[i] !== '"'; i++) {
+			if (input[i] !== "\\") {
+				arg += input[i];
+				continue;
+			}
+			const next = input[++i];
+			if (next === "x") {
+				arg += String.fromCharCode(parseInt(input.slice(i + 1, i + 3), 16));
+				i += 2;
+			} else {
+				arg += escapes[next] ?? next;
+			}
+		}
+		args.push(arg);
+		i++;
+	}
+	return args;
+}
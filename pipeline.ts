@@ -1,76 +1,211 @@
 import type { Connection } from "./connection.ts";
+import { ErrorReplyError, TransactionAbortedError } from "./errors.ts";
 import { CommandExecutor } from "./executor.ts";
 import {
-	okReply,
 	RawOrError,
+	readArrayReplies,
+	readReplies,
 	RedisReply,
 	RedisValue,
-	sendCommands,
 } from "./protocol/mod.ts";
 import { create, Redis } from "./redis.ts";
 
 export interface RedisPipeline extends Redis {
+	/**
+	 * Sends the queued commands and returns their raw replies. The promise
+	 * returned by each queued command resolves to its parsed result at the
+	 * same time, so it must not be awaited before `flush()` is called.
+	 *
+	 * For a transaction, these are the replies of the commands unpacked from
+	 * the reply of `EXEC`, with failed commands as `ErrorReplyError`. A
+	 * `TransactionAbortedError` is thrown if the transaction was discarded.
+	 */
 	flush(): Promise<RawOrError[]>;
+	/**
+	 * Sends the queued commands and resolves to the results of `commands`,
+	 * which are promises returned by commands of this pipeline. Rejects if one
+	 * of them failed.
+	 *
+	 * ```ts
+	 * const pipeline = redis.pipeline();
+	 * const [count, value] = await pipeline.flush(
+	 *   pipeline.incr("counter"), // number
+	 *   pipeline.get("key"), // string | null
+	 * );
+	 * ```
+	 */
+	flush<T extends readonly Promise<unknown>[]>(
+		...commands: T
+	): Promise<{ -readonly [K in keyof T]: Awaited<T[K]> }>;
 }
 
+/**
+ * Creates a pipeline whose commands are sent through `executor` as a single
+ * batch when it is flushed.
+ */
 export function createRedisPipeline(
-	connection: Connection,
+	executor: CommandExecutor,
 	tx = false,
 ): RedisPipeline {
-	const executor = new PipelineExecutor(connection, tx);
-	const client = create(executor);
-	return Object.assign(client, {
-		flush: () => executor.flush(),
+	return createPipelineClient(new PipelineExecutor(executor, tx));
+}
+
+/**
+ * Creates a pipeline whose commands are queued on `pipelineExecutor`, which
+ * can also discard them.
+ */
+export function createPipelineClient(
+	pipelineExecutor: PipelineExecutor,
+): RedisPipeline {
+	const client = create(pipelineExecutor);
+	const pipeline = Object.assign(client, {
+		flush: async (...commands: Promise<unknown>[]) => {
+			const replies = await pipelineExecutor.flush();
+			return commands.length > 0 ? Promise.all(commands) : replies;
+		},
+	}) as RedisPipeline;
+	// The results of queued commands are usually read from `flush()` instead,
+	// so a failed command must not cause an unhandled rejection.
+	return new Proxy(pipeline, {
+		get(target, property, receiver) {
+			const value = Reflect.get(target, property, receiver);
+			if (typeof value !== "function" || property === "flush") {
+				return value;
+			}
+			return (...args: unknown[]) => {
+				const result = value.apply(target, args);
+				if (result instanceof Promise) {
+					result.catch(() => {});
+				}
+				return result;
+			};
+		},
 	});
 }
 
 interface QueuedCommand {
 	command: string;
 	args: RedisValue[];
+	resolve: (reply: RedisReply) => void;
+	reject: (error: Error) => void;
 }
 
 export class PipelineExecutor implements CommandExecutor {
 	private commands: QueuedCommand[] = [];
 
 	constructor(
-		readonly connection: Connection,
+		private readonly executor: CommandExecutor,
 		private tx: boolean,
 	) {}
 
+	get connection(): Connection {
+		return this.executor.connection;
+	}
+
 	exec(command: string, ...args: RedisValue[]): Promise<RedisReply> {
-		this.commands.push({ command, args });
-		return Promise.resolve(okReply);
+		const { promise, resolve, reject } = Promise.withResolvers<RedisReply>();
+		this.commands.push({ command, args, resolve, reject });
+		return promise;
+	}
+
+	execBatch<T>(): Promise<T> {
+		return Promise.reject(
+			new Error("A pipeline cannot be flushed through another pipeline"),
+		);
 	}
 
 	close(): void {
-		this.connection.close();
+		this.executor.close();
 	}
 
-	async flush(): Promise<RawOrError[]> {
-		let commandsToFlush: QueuedCommand[] = [...this.commands];
+	/**
+	 * Rejects the queued commands with `error` without sending them.
+	 */
+	discard(error: Error): void {
+		const commands = this.commands;
 		this.commands = [];
-
-		if (this.tx) {
-			commandsToFlush = [
-				{ command: "MULTI", args: [] },
-				...commandsToFlush,
-				{ command: "EXEC", args: [] },
-			];
+		for (const { reject } of commands) {
+			reject(error);
 		}
+	}
+
+	async flush(): Promise<RawOrError[]> {
+		const commands = this.commands;
+		this.commands = [];
 
-		if (commandsToFlush.length === 0) {
+		if (commands.length === 0 && !this.tx) {
 			return [];
 		}
 
 		try {
-			const replies = await sendCommands(
-				this.connection.writer,
-				this.connection.reader,
-				commandsToFlush,
-			);
-			return replies;
+			return this.tx
+				? await this.flushTransaction(commands)
+				: await this.flushPipeline(commands);
 		} catch (error) {
+			for (const { reject } of commands) {
+				reject(error as Error);
+			}
 			throw error;
 		}
 	}
+
+	private async flushPipeline(
+		commands: QueuedCommand[],
+	): Promise<RawOrError[]> {
+		const replies = await this.executor.execBatch(
+			commands,
+			(reader) => readReplies(reader, commands.length),
+		);
+		commands.forEach((command, i) => settle(command, replies[i]));
+		return replies.map(toRawOrError);
+	}
+
+	private async flushTransaction(
+		commands: QueuedCommand[],
+	): Promise<RawOrError[]> {
+		const [queued, exec] = await this.executor.execBatch(
+			[
+				{ command: "MULTI", args: [] },
+				...commands,
+				{ command: "EXEC", args: [] },
+			],
+			async (reader) => {
+				// The replies of `MULTI` and of the queued commands, which are
+				// `QUEUED` unless a command was rejected.
+				const queued = await readReplies(reader, commands.length + 1);
+				try {
+					return [queued, await readArrayReplies(reader)] as const;
+				} catch (error) {
+					if (!(error instanceof ErrorReplyError)) throw error;
+					return [queued, error] as const;
+				}
+			},
+		);
+		if (exec instanceof ErrorReplyError) {
+			// `EXECABORT`, a command was rejected while being queued.
+			commands.forEach((command, i) => {
+				const reply = queued[i + 1];
+				command.reject(reply instanceof ErrorReplyError ? reply : exec);
+			});
+			throw new TransactionAbortedError(exec.message, { cause: exec });
+		}
+		if (exec === null) {
+			throw new TransactionAbortedError("Watched keys were modified");
+		}
+
+		commands.forEach((command, i) => settle(command, exec[i]));
+		return exec.map(toRawOrError);
+	}
+}
+
+function settle(command: QueuedCommand, reply: RedisReply | ErrorReplyError) {
+	if (reply instanceof ErrorReplyError) {
+		command.reject(reply);
+	} else {
+		command.resolve(reply);
+	}
+}
+
+function toRawOrError(reply: RedisReply | ErrorReplyError): RawOrError {
+	return reply instanceof ErrorReplyError ? reply : reply.value();
 }
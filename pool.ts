@@ -0,0 +1,469 @@
+import type { Connection } from "./connection.ts";
+import { RedisConnection } from "./connection.ts";
+import { createStreamConsumer } from "./consumer.ts";
+import type { StreamConsumer, StreamConsumerOptions } from "./consumer.ts";
+import { ConnectionClosedError, PoolTimeoutError } from "./errors.ts";
+import type { BatchReader, Command, CommandExecutor } from "./executor.ts";
+import { MuxExecutor } from "./executor.ts";
+import { readStream } from "./iterator.ts";
+import type { StreamIteratorOptions } from "./iterator.ts";
+import type { RawOrError, RedisReply, RedisValue } from "./protocol/mod.ts";
+import { psubscribe, ssubscribe, subscribe } from "./pubsub.ts";
+import type { RedisSubscription } from "./pubsub.ts";
+import { create } from "./redis.ts";
+import type { Redis, RedisConnectOptions } from "./redis.ts";
+import type { XMessage } from "./stream.ts";
+import { transaction } from "./transaction.ts";
+import type { TransactionCallback, TransactionOptions } from "./transaction.ts";
+
+export interface RedisPoolOptions extends RedisConnectOptions {
+	/**
+	 * The number of connections which are opened eagerly and kept open
+	 * while idle.
+	 * @default 0
+	 */
+	min?: number;
+	/**
+	 * The maximum number of connections which can be leased at once.
+	 * @default 10
+	 */
+	max?: number;
+	/**
+	 * How long in milliseconds a connection above `min` is kept open while idle.
+	 * @default 30000
+	 */
+	idleTimeout?: number;
+	/**
+	 * How long in milliseconds to wait for a free connection before failing
+	 * with `PoolTimeoutError`.
+	 * @default 10000
+	 */
+	acquireTimeout?: number;
+}
+
+/**
+ * A client which runs regular commands on a shared multiplexed connection and
+ * leases pooled connections for blocking commands and subscriptions.
+ */
+export interface RedisPool extends Redis {
+	/**
+	 * Leases a dedicated connection from the pool, e.g. for a `WATCH`/`MULTI`
+	 * session. It must be given back with `release()`.
+	 */
+	acquire(): Promise<RedisPoolConnection>;
+}
+
+export interface RedisPoolConnection extends Redis {
+	/**
+	 * Gives the connection back to the pool. Any open `MULTI` or `WATCH` must
+	 * be finished before releasing it.
+	 */
+	release(): void;
+}
+
+/**
+ * Create a pool of connections which behaves like a regular `Redis` client.
+ *
+ * Blocking commands (`BLPOP`, `XREAD ... BLOCK`, ...) and subscriptions are run
+ * on connections leased from the pool, so they never stall other callers.
+ *
+ * ```ts
+ * import { createPool } from "./mod.ts";
+ *
+ * const redis = await createPool({ hostname: "127.0.0.1", port: 6379, max: 5 });
+ * const job = redis.brpop(0, "jobs"); // does not block the commands below
+ * await redis.lpush("jobs", "job-1");
+ * ```
+ */
+export async function createPool(
+	options: RedisPoolOptions,
+): Promise<RedisPool> {
+	const {
+		min,
+		max,
+		idleTimeout,
+		acquireTimeout,
+		...connectOptions
+	} = options;
+	const pool = new ConnectionPool(
+		() => createConnection(connectOptions),
+		{ min, max, idleTimeout, acquireTimeout },
+	);
+
+	const connection = createConnection(connectOptions);
+	await connection.connect();
+	try {
+		await pool.init();
+	} catch (error) {
+		connection.close();
+		throw error;
+	}
+
+	const executor = new PooledExecutor(
+		new MuxExecutor(connection, {
+			maxInFlight: options.maxInFlight,
+			autoPipeline: options.autoPipeline,
+		}),
+		pool,
+	);
+	const client = create(executor);
+	return Object.assign(client, {
+		acquire: async () => {
+			const leased = await pool.acquire();
+			let released = false;
+			return Object.assign(create(new MuxExecutor(leased)), {
+				release: () => {
+					if (released) return;
+					released = true;
+					pool.release(leased);
+				},
+			});
+		},
+		createStreamConsumer: (
+			options: StreamConsumerOptions,
+		): Promise<StreamConsumer> =>
+			executor.withDedicatedExecutor((executor) =>
+				createStreamConsumer(client, executor, options)
+			),
+		async *streamIterator(
+			key: string,
+			options?: StreamIteratorOptions,
+		): AsyncIterableIterator<XMessage> {
+			const dedicated = await executor.withDedicatedExecutor(
+				(executor) => Promise.resolve(executor),
+			);
+			try {
+				yield* readStream(create(dedicated), key, options);
+			} finally {
+				dedicated.close();
+			}
+		},
+		subscribe: <TMessage extends string | string[] | Uint8Array = string>(
+			...channels: string[]
+		): Promise<RedisSubscription<TMessage>> =>
+			executor.withDedicatedExecutor((executor) =>
+				subscribe<TMessage>(executor, ...channels)
+			),
+		psubscribe: <TMessage extends string | string[] | Uint8Array = string>(
+			...patterns: string[]
+		): Promise<RedisSubscription<TMessage>> =>
+			executor.withDedicatedExecutor((executor) =>
+				psubscribe<TMessage>(executor, ...patterns)
+			),
+		ssubscribe: <TMessage extends string | string[] | Uint8Array = string>(
+			...shardChannels: string[]
+		): Promise<RedisSubscription<TMessage>> =>
+			executor.withDedicatedExecutor((executor) =>
+				ssubscribe<TMessage>(executor, ...shardChannels)
+			),
+		transaction: async (
+			keys: string[],
+			fn: TransactionCallback,
+			options?: TransactionOptions,
+		): Promise<RawOrError[]> => {
+			const leased = await pool.acquire();
+			try {
+				const replies = await transaction(
+					new MuxExecutor(leased),
+					keys,
+					fn,
+					options,
+				);
+				pool.release(leased);
+				return replies;
+			} catch (error) {
+				// The connection may still be watching keys or inside MULTI.
+				pool.destroy(leased);
+				throw error;
+			}
+		},
+	});
+}
+
+function createConnection(options: RedisConnectOptions): Connection {
+	const {
+		hostname,
+		port = 6379,
+		maxInFlight: _,
+		autoPipeline: __,
+		...opts
+	} = options;
+	return new RedisConnection(hostname, port, opts);
+}
+
+const blockingCommands = new Set([
+	"BLPOP",
+	"BRPOP",
+	"BRPOPLPUSH",
+	"BLMOVE",
+	"BLMPOP",
+	"BZPOPMIN",
+	"BZPOPMAX",
+	"BZMPOP",
+	"WAIT",
+	"WAITAOF",
+]);
+
+/**
+ * Returns true when the command may block the connection while waiting for
+ * data, e.g. `BLPOP` or `XREAD` with a `BLOCK` option.
+ */
+export function isBlockingCommand(
+	command: string,
+	args: RedisValue[],
+): boolean {
+	const name = command.toUpperCase();
+	if (blockingCommands.has(name)) {
+		return true;
+	}
+	if (name === "XREAD" || name === "XREADGROUP") {
+		return args.some((arg) =>
+			typeof arg === "string" && arg.toUpperCase() === "BLOCK"
+		);
+	}
+	return false;
+}
+
+/**
+ * Runs regular commands on a shared executor and blocking commands on
+ * connections leased from the pool.
+ */
+export class PooledExecutor implements CommandExecutor {
+	constructor(
+		private readonly shared: CommandExecutor,
+		private readonly pool: ConnectionPool,
+	) {}
+
+	get connection(): Connection {
+		return this.shared.connection;
+	}
+
+	async exec(command: string, ...args: RedisValue[]): Promise<RedisReply> {
+		if (!isBlockingCommand(command, args)) {
+			return this.shared.exec(command, ...args);
+		}
+
+		const connection = await this.pool.acquire();
+		try {
+			return await new MuxExecutor(connection).exec(command, ...args);
+		} finally {
+			this.pool.release(connection);
+		}
+	}
+
+	execBatch<T>(commands: Command[], read: BatchReader<T>): Promise<T> {
+		return this.shared.execBatch(commands, read);
+	}
+
+	/**
+	 * Leases a connection for the lifetime of the object created by `fn`.
+	 * The connection is removed from the pool when that object closes it.
+	 */
+	async withDedicatedExecutor<T>(
+		fn: (executor: CommandExecutor) => Promise<T>,
+	): Promise<T> {
+		const connection = await this.pool.acquire();
+		const pool = this.pool;
+		const executor = new MuxExecutor(connection);
+		const dedicated: CommandExecutor = {
+			connection,
+			exec: (command, ...args) => executor.exec(command, ...args),
+			execBatch: (commands, read) => executor.execBatch(commands, read),
+			close: () => pool.destroy(connection),
+		};
+		try {
+			return await fn(dedicated);
+		} catch (error) {
+			pool.destroy(connection);
+			throw error;
+		}
+	}
+
+	close(): void {
+		this.pool.close();
+		this.shared.close();
+	}
+}
+
+interface IdleConnection {
+	connection: Connection;
+	timer?: ReturnType<typeof setTimeout>;
+}
+
+interface Waiter {
+	resolve: (connection: Connection) => void;
+	reject: (reason?: unknown) => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+export interface ConnectionPoolOptions {
+	min?: number;
+	max?: number;
+	idleTimeout?: number;
+	acquireTimeout?: number;
+}
+
+export class ConnectionPool {
+	private idle: IdleConnection[] = [];
+	private waiters: Waiter[] = [];
+	// Open connections, leased or idle.
+	private connections = new Set<Connection>();
+	// Connections being opened.
+	private opening = 0;
+	private closed = false;
+	private readonly min: number;
+	private readonly max: number;
+	private readonly idleTimeout: number;
+	private readonly acquireTimeout: number;
+
+	constructor(
+		private readonly factory: () => Connection,
+		options: ConnectionPoolOptions = {},
+	) {
+		this.min = options.min ?? 0;
+		this.max = options.max ?? 10;
+		this.idleTimeout = options.idleTimeout ?? 30000;
+		this.acquireTimeout = options.acquireTimeout ?? 10000;
+		if (this.min > this.max) {
+			throw new Error("`min` must not be greater than `max`");
+		}
+	}
+
+	/** The number of open connections, leased or idle. */
+	get totalCount(): number {
+		return this.connections.size;
+	}
+
+	private get size(): number {
+		return this.connections.size + this.opening;
+	}
+
+	/** The number of open connections which are not leased. */
+	get idleCount(): number {
+		return this.idle.length;
+	}
+
+	/** The number of callers waiting for a connection. */
+	get pendingCount(): number {
+		return this.waiters.length;
+	}
+
+	/**
+	 * Opens the `min` connections.
+	 */
+	async init(): Promise<void> {
+		const connections = await Promise.all(
+			Array.from({ length: this.min - this.size }, () => this.open()),
+		);
+		for (const connection of connections) {
+			this.release(connection);
+		}
+	}
+
+	acquire(): Promise<Connection> {
+		if (this.closed) {
+			return Promise.reject(new ConnectionClosedError("Pool is closed"));
+		}
+
+		while (this.idle.length > 0) {
+			const { connection, timer } = this.idle.pop()!;
+			clearTimeout(timer);
+			if (!connection.isClosed) {
+				return Promise.resolve(connection);
+			}
+			this.connections.delete(connection);
+		}
+
+		if (this.size < this.max) {
+			return this.open();
+		}
+
+		const { promise, resolve, reject } = Promise.withResolvers<Connection>();
+		const waiter: Waiter = {
+			resolve,
+			reject,
+			timer: setTimeout(() => {
+				this.waiters.splice(this.waiters.indexOf(waiter), 1);
+				reject(
+					new PoolTimeoutError(
+						`Timed out after ${this.acquireTimeout}ms waiting for a connection`,
+					),
+				);
+			}, this.acquireTimeout),
+		};
+		this.waiters.push(waiter);
+		return promise;
+	}
+
+	release(connection: Connection): void {
+		if (this.closed || connection.isClosed) {
+			this.destroy(connection);
+			return;
+		}
+
+		const waiter = this.waiters.shift();
+		if (waiter) {
+			clearTimeout(waiter.timer);
+			waiter.resolve(connection);
+			return;
+		}
+
+		const idle: IdleConnection = { connection };
+		if (this.size > this.min) {
+			idle.timer = setTimeout(() => {
+				const index = this.idle.indexOf(idle);
+				if (index !== -1 && this.size > this.min) {
+					this.idle.splice(index, 1);
+					this.destroy(connection);
+				}
+			}, this.idleTimeout);
+			// Idle connections should not keep the process alive.
+			Deno.unrefTimer(idle.timer);
+		}
+		this.idle.push(idle);
+	}
+
+	/**
+	 * Closes a leased connection and removes it from the pool.
+	 */
+	destroy(connection: Connection): void {
+		if (!connection.isClosed) {
+			connection.close();
+		}
+		if (!this.connections.delete(connection)) {
+			return;
+		}
+
+		// Open a replacement for a caller waiting for a connection.
+		const waiter = this.waiters.shift();
+		if (waiter) {
+			clearTimeout(waiter.timer);
+			this.open().then(waiter.resolve, waiter.reject);
+		}
+	}
+
+	close(): void {
+		this.closed = true;
+		for (const { connection, timer } of this.idle.splice(0)) {
+			clearTimeout(timer);
+			connection.close();
+			this.connections.delete(connection);
+		}
+		for (const waiter of this.waiters.splice(0)) {
+			clearTimeout(waiter.timer);
+			waiter.reject(new ConnectionClosedError("Pool is closed"));
+		}
+	}
+
+	private async open(): Promise<Connection> {
+		this.opening++;
+		const connection = this.factory();
+		try {
+			await connection.connect();
+			this.connections.add(connection);
+		} finally {
+			this.opening--;
+		}
+		return connection;
+	}
+}
@@ -0,0 +1,137 @@
+import { InvalidStateError } from "../errors.ts";
+
+const CR = 13;
+const LF = 10;
+
+/**
+ * A long-lived buffered reader over the readable side of a connection.
+ *
+ * Bytes which were pulled from the socket past the end of the current reply
+ * are kept for the next read, so several frames arriving in one chunk are
+ * never dropped. The reader lock of the underlying stream is held for the
+ * whole lifetime of this object, unless a reader was passed instead of the
+ * stream.
+ */
+export class BufferedReader {
+	#reader: ReadableStreamDefaultReader<Uint8Array>;
+	#buf = new Uint8Array(4096);
+	#start = 0;
+	#end = 0;
+
+	constructor(
+		readable:
+			| ReadableStream<Uint8Array>
+			| ReadableStreamDefaultReader<Uint8Array>,
+	) {
+		this.#reader = readable instanceof ReadableStream
+			? readable.getReader()
+			: readable;
+	}
+
+	/**
+	 * The number of bytes which have been read from the stream but not
+	 * consumed yet.
+	 */
+	get buffered(): number {
+		return this.#end - this.#start;
+	}
+
+	/**
+	 * Reads a line terminated by CRLF. The terminator is not included.
+	 */
+	async readLine(): Promise<Uint8Array | null> {
+		let scanned = 0;
+		while (true) {
+			const crlfIndex = this.#findCRLF(scanned);
+			if (crlfIndex !== -1) {
+				const line = this.#buf.slice(this.#start, this.#start + crlfIndex);
+				this.#start += crlfIndex + 2;
+				return line;
+			}
+			// The last byte may be a CR whose LF has not arrived yet
+			scanned = Math.max(0, this.buffered - 1);
+
+			// Need more data
+			if (!(await this.#fill())) {
+				if (this.buffered > 0) {
+					const remaining = this.#buf.slice(this.#start, this.#end);
+					this.#start = this.#end;
+					return remaining;
+				}
+				return null;
+			}
+		}
+	}
+
+	async readBytes(length: number): Promise<Uint8Array> {
+		await this.#ensureBuffered(length);
+		if (this.buffered < length) {
+			throw new InvalidStateError("Unexpected end of stream");
+		}
+
+		const result = this.#buf.slice(this.#start, this.#start + length);
+		this.#start += length;
+		return result;
+	}
+
+	async peek(length: number): Promise<Uint8Array | null> {
+		await this.#ensureBuffered(length);
+		if (this.buffered === 0) {
+			return null;
+		}
+
+		return this.#buf.subarray(
+			this.#start,
+			this.#start + Math.min(length, this.buffered),
+		);
+	}
+
+	async #ensureBuffered(minSize: number): Promise<void> {
+		while (this.buffered < minSize) {
+			if (!(await this.#fill())) {
+				break; // Can't read more data
+			}
+		}
+	}
+
+	async #fill(): Promise<boolean> {
+		const { value, done } = await this.#reader.read();
+		if (done) {
+			return false;
+		}
+		if (value && value.length > 0) {
+			this.#append(value);
+		}
+		return true;
+	}
+
+	#append(chunk: Uint8Array): void {
+		const buffered = this.buffered;
+		if (this.#end + chunk.length > this.#buf.length) {
+			if (buffered + chunk.length <= this.#buf.length) {
+				// Enough room once the consumed bytes are discarded
+				this.#buf.copyWithin(0, this.#start, this.#end);
+			} else {
+				const grown = new Uint8Array(
+					Math.max(this.#buf.length * 2, buffered + chunk.length),
+				);
+				grown.set(this.#buf.subarray(this.#start, this.#end));
+				this.#buf = grown;
+			}
+			this.#start = 0;
+			this.#end = buffered;
+		}
+		this.#buf.set(chunk, this.#end);
+		this.#end += chunk.length;
+	}
+
+	// Returns the index of CRLF relative to the read position
+	#findCRLF(from: number): number {
+		for (let i = this.#start + from; i < this.#end - 1; i++) {
+			if (this.#buf[i] === CR && this.#buf[i + 1] === LF) {
+				return i - this.#start;
+			}
+		}
+		return -1;
+	}
+}
@@ -1,5 +1,6 @@
 import { Buffer } from "@std/streams/buffer";
-import { readReply } from "./reply.ts";
+import { readReplies, readReply } from "./reply.ts";
+import { BufferedReader } from "./buffered_reader.ts";
 import { ErrorReplyError } from "../errors.ts";
 import { encoder } from "../utils.ts";
 import type { RawOrError, RedisReply, RedisValue } from "./types.ts";
@@ -35,16 +36,20 @@ async function _writeCommand(
 	}
 }
 
-async function writeRequest(
+async function writeRequests(
 	writableStream: WritableStreamDefaultWriter<Uint8Array>,
-	command: string,
-	args: RedisValue[],
+	commands: {
+		command: string;
+		args: RedisValue[];
+	}[],
 ) {
 	const buffer = new Buffer();
 	const writer = buffer.writable.getWriter();
 
 	try {
-		await _writeCommand(writer, command, args);
+		for (const { command, args } of commands) {
+			await _writeCommand(writer, command, args);
+		}
 	} finally {
 		writer.releaseLock();
 	}
@@ -53,31 +58,47 @@ async function writeRequest(
 	await writableStream.write(buffer.bytes());
 }
 
-export async function sendCommand(
-	writer: WritableStream<Uint8Array>,
-	reader: ReadableStream<Uint8Array>,
-	command: string,
-	...args: RedisValue[]
-): Promise<RedisReply> {
-	const streamWriter = writer.getWriter();
+/**
+ * Writes the encoded commands to the stream in a single write without
+ * waiting for their replies.
+ */
+export async function writeCommands(
+	writableStream: WritableStream<Uint8Array>,
+	commands: {
+		command: string;
+		args: RedisValue[];
+	}[],
+): Promise<void> {
+	const streamWriter = writableStream.getWriter();
 	try {
-		await writeRequest(streamWriter, command, args);
+		await writeRequests(streamWriter, commands);
 	} finally {
 		streamWriter.releaseLock();
 	}
 	// Do not close the writer, connection should be reusable.
+}
 
-	const streamReader = reader.getReader();
-	try {
-		return await readReply(streamReader);
-	} finally {
-		streamReader.releaseLock();
-	}
+/**
+ * Writes the command and reads its reply. A `ReadableStream` is only locked
+ * and buffered for this call; pass the `BufferedReader` of the connection to
+ * keep the bytes read past the reply.
+ */
+export async function sendCommand(
+	writer: WritableStream<Uint8Array>,
+	reader: BufferedReader | ReadableStream<Uint8Array>,
+	command: string,
+	...args: RedisValue[]
+): Promise<RedisReply> {
+	await writeCommands(writer, [{ command, args }]);
+	return await withBufferedReader(reader, readReply);
 }
 
+/**
+ * Writes the commands at once and reads their replies, like `sendCommand()`.
+ */
 export async function sendCommands(
 	writableStream: WritableStream<Uint8Array>,
-	readableStream: ReadableStream<Uint8Array>,
+	reader: BufferedReader | ReadableStream<Uint8Array>,
 	commands: {
 		command: string;
 		args: RedisValue[];
@@ -87,29 +108,28 @@ export async function sendCommands(
 		return [];
 	}
 
-	// Send commands sequentially to avoid stream locking issues that can occur
-	// when batching commands in a single write operation followed by multiple reads.
-	// While this approach is slightly less efficient than true batching, it provides
-	// the pipeline API benefits while being more reliable across different Deno versions.
-	const results: RawOrError[] = [];
+	// Write all the commands at once, then read the replies in order.
+	await writeCommands(writableStream, commands);
+	const replies = await withBufferedReader(
+		reader,
+		(bufferedReader) => readReplies(bufferedReader, commands.length),
+	);
+	return replies.map((reply) =>
+		reply instanceof ErrorReplyError ? reply : reply.value()
+	);
+}
 
-	for (const { command, args } of commands) {
-		try {
-			const reply = await sendCommand(
-				writableStream,
-				readableStream,
-				command,
-				...args,
-			);
-			results.push(reply.value());
-		} catch (e) {
-			if (e instanceof ErrorReplyError) {
-				results.push(e);
-			} else {
-				throw e;
-			}
-		}
+async function withBufferedReader<T>(
+	reader: BufferedReader | ReadableStream<Uint8Array>,
+	read: (reader: BufferedReader) => Promise<T>,
+): Promise<T> {
+	if (reader instanceof BufferedReader) {
+		return await read(reader);
+	}
+	const streamReader = reader.getReader();
+	try {
+		return await read(new BufferedReader(streamReader));
+	} finally {
+		streamReader.releaseLock();
 	}
-
-	return results;
 }
@@ -1,17 +1,30 @@
 export type {
+	BigNumber,
 	Binary,
 	Bulk,
 	BulkNil,
 	BulkString,
 	ConditionalArray,
+	Double,
 	Integer,
+	ProtocolVersion,
 	Raw,
 	RawOrError,
+	RedisMap,
 	RedisReply,
 	RedisValue,
 	SimpleString,
 } from "./types.ts";
 
-export { okReply, readArrayReplyBody, readReply } from "./reply.ts";
+export {
+	okReply,
+	readArrayReplies,
+	readArrayReplyBody,
+	readReplies,
+	readReply,
+	skipPushReplies,
+} from "./reply.ts";
 
-export { sendCommand, sendCommands } from "./command.ts";
+export { BufferedReader } from "./buffered_reader.ts";
+
+export { sendCommand, sendCommands, writeCommands } from "./command.ts";
@@ -1,124 +1,120 @@
 import type * as types from "./types.ts";
 import { EOFError, ErrorReplyError, InvalidStateError } from "../errors.ts";
 import { decoder, encoder } from "../utils.ts";
-import { Buffer } from "@std/streams";
-
-// Enhanced buffered reader using @std/streams Buffer for better performance
-class StreamBuffer {
-	private buffer = new Buffer();
-	private reader: ReadableStreamDefaultReader<Uint8Array>;
-	private writer: WritableStreamDefaultWriter<Uint8Array>;
-
-	constructor(reader: ReadableStreamDefaultReader<Uint8Array>) {
-		this.reader = reader;
-		this.writer = this.buffer.writable.getWriter();
-	}
-
-	async readLine(): Promise<Uint8Array | null> {
-		while (true) {
-			// Check if we have a complete line in buffer using optimized approach
-			const data = this.buffer.bytes();
-			const crlfIndex = this.findCRLF(data);
-
-			if (crlfIndex !== -1) {
-				const line = data.subarray(0, crlfIndex);
-				const remaining = data.subarray(crlfIndex + 2);
-				await this.resetBuffer(remaining);
-				return line;
-			}
+import { BufferedReader } from "./buffered_reader.ts";
 
-			// Need more data
-			const { value, done } = await this.reader.read();
-			if (done) {
-				if (this.buffer.length > 0) {
-					const remaining = this.buffer.bytes();
-					await this.resetBuffer();
-					return remaining;
-				}
-				return null;
-			}
+const IntegerReplyCode = ":".charCodeAt(0);
+const BulkReplyCode = "$".charCodeAt(0);
+const SimpleStringCode = "+".charCodeAt(0);
+const ArrayReplyCode = "*".charCodeAt(0);
+const ErrorReplyCode = "-".charCodeAt(0);
 
-			if (value) {
-				await this.writer.write(value);
-			}
-		}
-	}
+// RESP3 type codes
+const MapReplyCode = "%".charCodeAt(0);
+const SetReplyCode = "~".charCodeAt(0);
+const DoubleReplyCode = ",".charCodeAt(0);
+const BooleanReplyCode = "#".charCodeAt(0);
+const BigNumberReplyCode = "(".charCodeAt(0);
+const VerbatimStringCode = "=".charCodeAt(0);
+const NullReplyCode = "_".charCodeAt(0);
+const AttributeReplyCode = "|".charCodeAt(0);
+const PushReplyCode = ">".charCodeAt(0);
+const BlobErrorReplyCode = "!".charCodeAt(0);
+
+/**
+ * Reads one reply. A `ReadableStreamDefaultReader` is only buffered for this
+ * call, so the bytes read past the reply are lost; pass a `BufferedReader`
+ * to read several replies from the same stream.
+ */
+export function readReply(
+	reader: BufferedReader | ReadableStreamDefaultReader<Uint8Array>,
+): Promise<types.RedisReply> {
+	return decodeReply(toBufferedReader(reader));
+}
 
-	async readBytes(length: number): Promise<Uint8Array> {
-		// Ensure we have enough data in buffer efficiently
-		await this.ensureBufferSize(length);
+/**
+ * Reads and drops the RESP3 push frames which precede the next reply. They
+ * are sent out of band, e.g. the invalidation messages of client tracking
+ * without `REDIRECT`, so they must not be taken for the reply of a command.
+ */
+export async function skipPushReplies(
+	bufferedReader: BufferedReader,
+): Promise<void> {
+	while ((await bufferedReader.peek(1))?.[0] === PushReplyCode) {
+		await decodeReply(bufferedReader);
+	}
+}
 
-		const data = this.buffer.bytes();
-		if (data.length < length) {
-			throw new InvalidStateError("Unexpected end of stream");
+/**
+ * Reads `count` consecutive replies from the same buffered reader.
+ * Error replies are returned in place instead of being thrown, and push
+ * frames are skipped.
+ */
+export async function readReplies(
+	reader: BufferedReader | ReadableStreamDefaultReader<Uint8Array>,
+	count: number,
+): Promise<Array<types.RedisReply | ErrorReplyError>> {
+	const bufferedReader = toBufferedReader(reader);
+	const replies: Array<types.RedisReply | ErrorReplyError> = [];
+	for (let i = 0; i < count; i++) {
+		await skipPushReplies(bufferedReader);
+		try {
+			replies.push(await decodeReply(bufferedReader));
+		} catch (error) {
+			if (error instanceof ErrorReplyError) {
+				replies.push(error);
+			} else {
+				throw error;
+			}
 		}
-
-		const result = data.subarray(0, length);
-		const remaining = data.subarray(length);
-		await this.resetBuffer(remaining);
-		return result;
 	}
+	return replies;
+}
 
-	async peek(length: number): Promise<Uint8Array | null> {
-		// Try to fill buffer to at least the requested length
-		await this.ensureBufferSize(length);
-
-		const data = this.buffer.bytes();
-		if (data.length === 0) {
+/**
+ * Reads an array reply without decoding its elements, e.g. the reply of
+ * `EXEC`, which holds the reply of every command of the transaction. Error
+ * elements are returned in place and a null array is returned as `null`.
+ */
+export async function readArrayReplies(
+	bufferedReader: BufferedReader,
+): Promise<Array<types.RedisReply | ErrorReplyError> | null> {
+	await skipPushReplies(bufferedReader);
+	const firstByte = await bufferedReader.peek(1);
+	if (!firstByte || firstByte.length === 0) {
+		throw new EOFError();
+	}
+	const code = firstByte[0];
+	if (code !== ArrayReplyCode) {
+		// A RESP3 null, or an error which is thrown.
+		const reply = await decodeReply(bufferedReader);
+		if (reply.value() === null) {
 			return null;
 		}
-
-		return data.subarray(0, Math.min(length, data.length));
+		throw new InvalidStateError(
+			`unexpected code: '${String.fromCharCode(code)}' (${code})`,
+		);
 	}
-
-	// Efficient method to ensure buffer has at least `minSize` bytes
-	private async ensureBufferSize(minSize: number): Promise<void> {
-		while (this.buffer.length < minSize) {
-			const { value, done } = await this.reader.read();
-			if (done) {
-				break; // Can't read more data
-			}
-			if (value) {
-				await this.writer.write(value);
-			}
-		}
+	const line = await bufferedReader.readLine();
+	if (line == null) {
+		throw new InvalidStateError();
 	}
-
-	// Optimized CRLF finder
-	private findCRLF(data: Uint8Array): number {
-		// Look for \r\n (13, 10) - Redis protocol uses CRLF line endings
-		for (let i = 0; i < data.length - 1; i++) {
-			if (data[i] === 13 && data[i + 1] === 10) {
-				return i;
-			}
-		}
-		return -1;
-	}
-
-	private async resetBuffer(data?: Uint8Array): Promise<void> {
-		// Release the current writer
-		this.writer.releaseLock();
-		// Reset the buffer efficiently using Buffer's built-in reset method
-		this.buffer.reset();
-		// Get a new writer
-		this.writer = this.buffer.writable.getWriter();
-		// Write the remaining data if provided
-		if (data && data.length > 0) {
-			await this.writer.write(data);
-		}
+	const count = parseSize(line);
+	if (count === -1) {
+		return null;
 	}
+	return readReplies(bufferedReader, count);
 }
 
-const IntegerReplyCode = ":".charCodeAt(0);
-const BulkReplyCode = "$".charCodeAt(0);
-const SimpleStringCode = "+".charCodeAt(0);
-const ArrayReplyCode = "*".charCodeAt(0);
-const ErrorReplyCode = "-".charCodeAt(0);
+function toBufferedReader(
+	reader: BufferedReader | ReadableStreamDefaultReader<Uint8Array>,
+): BufferedReader {
+	return reader instanceof BufferedReader ? reader : new BufferedReader(reader);
+}
 
-export async function readReply(
-	reader: ReadableStreamDefaultReader<Uint8Array>,
+async function decodeReply(
+	bufferedReader: BufferedReader,
 ): Promise<types.RedisReply> {
-	const bufferedReader = new StreamBuffer(reader);
 	const firstByte = await bufferedReader.peek(1);
 
 	if (!firstByte || firstByte.length === 0) {
@@ -142,6 +138,35 @@ export async function readReply(
 			return BulkReply.decode(bufferedReader);
 		case ArrayReplyCode:
 			return ArrayReply.decode(bufferedReader);
+		case MapReplyCode:
+			return MapReply.decode(bufferedReader);
+		case SetReplyCode:
+			return SetReply.decode(bufferedReader);
+		case DoubleReplyCode:
+			return DoubleReply.decode(bufferedReader);
+		case BooleanReplyCode:
+			return BooleanReply.decode(bufferedReader);
+		case BigNumberReplyCode:
+			return BigNumberReply.decode(bufferedReader);
+		case VerbatimStringCode:
+			return VerbatimStringReply.decode(bufferedReader);
+		case NullReplyCode:
+			return NullReply.decode(bufferedReader);
+		case PushReplyCode:
+			return PushReply.decode(bufferedReader);
+		case AttributeReplyCode: {
+			// Attributes are out-of-band metadata which precede the actual reply.
+			// They are not exposed yet, so skip them and decode the real reply.
+			await readMapReplyBody(bufferedReader);
+			return decodeReply(bufferedReader);
+		}
+		case BlobErrorReplyCode: {
+			const body = await readBulkReplyBody(
+				bufferedReader,
+				BlobErrorReplyCode,
+			);
+			throw new ErrorReplyError(decoder.decode(body ?? new Uint8Array()));
+		}
 		default:
 			throw new InvalidStateError(
 				`unknown code: '${String.fromCharCode(code)}' (${code})`,
@@ -152,11 +177,11 @@ export async function readReply(
 abstract class BaseReply implements types.RedisReply {
 	constructor(readonly code: number) {}
 
-	buffer(): Uint8Array {
+	buffer(): types.Binary | types.BulkNil {
 		throw createDecodeError(this.code, "buffer");
 	}
 
-	string(): string {
+	string(): types.SimpleString | types.BulkNil {
 		throw createDecodeError(this.code, "string");
 	}
 
@@ -176,7 +201,7 @@ abstract class BaseReply implements types.RedisReply {
 }
 
 class SimpleStringReply extends BaseReply {
-	static async decode(reader: StreamBuffer): Promise<types.RedisReply> {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
 		const body = await readSimpleStringReplyBody(reader);
 		return new SimpleStringReply(body);
 	}
@@ -205,7 +230,7 @@ class SimpleStringReply extends BaseReply {
 }
 
 class BulkReply extends BaseReply {
-	static async decode(reader: StreamBuffer): Promise<types.RedisReply> {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
 		const body = await readBulkReplyBody(reader);
 		return new BulkReply(body);
 	}
@@ -221,11 +246,11 @@ class BulkReply extends BaseReply {
 	}
 
 	override buffer() {
-		return this.#body ?? new Uint8Array();
+		return this.#body;
 	}
 
 	override string() {
-		return decoder.decode(this.#body ?? new Uint8Array());
+		return this.bulk();
 	}
 
 	override value() {
@@ -234,7 +259,7 @@ class BulkReply extends BaseReply {
 }
 
 class IntegerReply extends BaseReply {
-	static async decode(reader: StreamBuffer): Promise<types.RedisReply> {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
 		const body = await readIntegerReplyBody(reader);
 		return new IntegerReply(body);
 	}
@@ -259,7 +284,7 @@ class IntegerReply extends BaseReply {
 }
 
 class ArrayReply extends BaseReply {
-	static async decode(reader: StreamBuffer): Promise<types.RedisReply> {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
 		const body = await readArrayReplyBody(reader);
 		return new ArrayReply(body);
 	}
@@ -279,7 +304,225 @@ class ArrayReply extends BaseReply {
 	}
 }
 
-async function readIntegerReplyBody(reader: StreamBuffer): Promise<Uint8Array> {
+class MapReply extends BaseReply {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
+		const body = await readMapReplyBody(reader);
+		return new MapReply(body);
+	}
+
+	readonly #body: types.RedisMap;
+	private constructor(body: types.RedisMap) {
+		super(MapReplyCode);
+		this.#body = body;
+	}
+
+	/**
+	 * Returns the entries flattened into `[key1, value1, key2, value2, ...]`,
+	 * which is how RESP2 servers reply to the same commands.
+	 */
+	override array() {
+		const array: types.ConditionalArray = [];
+		for (const [key, value] of this.#body) {
+			array.push(key, value);
+		}
+		return array;
+	}
+
+	override value() {
+		return this.#body;
+	}
+}
+
+class SetReply extends BaseReply {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
+		const body = await readArrayReplyBody(reader);
+		return new SetReply(body ?? []);
+	}
+
+	readonly #body: types.ConditionalArray;
+	private constructor(body: types.ConditionalArray) {
+		super(SetReplyCode);
+		this.#body = body;
+	}
+
+	override array() {
+		return this.#body;
+	}
+
+	override value() {
+		return this.array();
+	}
+}
+
+class PushReply extends BaseReply {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
+		const body = await readArrayReplyBody(reader);
+		return new PushReply(body ?? []);
+	}
+
+	readonly #body: types.ConditionalArray;
+	private constructor(body: types.ConditionalArray) {
+		super(PushReplyCode);
+		this.#body = body;
+	}
+
+	override array() {
+		return this.#body;
+	}
+
+	override value() {
+		return this.array();
+	}
+}
+
+class DoubleReply extends BaseReply {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
+		const body = await readIntegerReplyBody(reader);
+		return new DoubleReply(body);
+	}
+
+	readonly #body: Uint8Array;
+	private constructor(body: Uint8Array) {
+		super(DoubleReplyCode);
+		this.#body = body;
+	}
+
+	override bulk() {
+		return this.string();
+	}
+
+	override string() {
+		return decoder.decode(this.#body);
+	}
+
+	override value() {
+		return parseDouble(this.string());
+	}
+}
+
+class BooleanReply extends BaseReply {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
+		const body = await readIntegerReplyBody(reader);
+		return new BooleanReply(body);
+	}
+
+	readonly #body: Uint8Array;
+	private constructor(body: Uint8Array) {
+		super(BooleanReplyCode);
+		this.#body = body;
+	}
+
+	override integer() {
+		return this.value() ? 1 : 0;
+	}
+
+	override value() {
+		return this.#body[0] === "t".charCodeAt(0);
+	}
+}
+
+class BigNumberReply extends BaseReply {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
+		const body = await readIntegerReplyBody(reader);
+		return new BigNumberReply(body);
+	}
+
+	readonly #body: Uint8Array;
+	private constructor(body: Uint8Array) {
+		super(BigNumberReplyCode);
+		this.#body = body;
+	}
+
+	override bulk() {
+		return this.string();
+	}
+
+	override string() {
+		return decoder.decode(this.#body);
+	}
+
+	override value() {
+		return BigInt(this.string());
+	}
+}
+
+class VerbatimStringReply extends BaseReply {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
+		const body = await readBulkReplyBody(reader, VerbatimStringCode);
+		if (body == null || body.length < 4) {
+			throw new InvalidStateError("Invalid verbatim string");
+		}
+		return new VerbatimStringReply(body);
+	}
+
+	/**
+	 * The three characters format of the string, e.g. `txt` or `mkd`.
+	 */
+	readonly format: string;
+	readonly #body: Uint8Array;
+	private constructor(body: Uint8Array) {
+		super(VerbatimStringCode);
+		// The first four bytes are the format followed by `:`
+		this.format = decoder.decode(body.subarray(0, 3));
+		this.#body = body.subarray(4);
+	}
+
+	override bulk() {
+		return this.string();
+	}
+
+	override buffer() {
+		return this.#body;
+	}
+
+	override string() {
+		return decoder.decode(this.#body);
+	}
+
+	override value() {
+		return this.string();
+	}
+}
+
+class NullReply extends BaseReply {
+	static async decode(reader: BufferedReader): Promise<types.RedisReply> {
+		const line = await reader.readLine();
+		if (line == null) {
+			throw new InvalidStateError();
+		}
+		return nullReply;
+	}
+
+	constructor() {
+		super(NullReplyCode);
+	}
+
+	override bulk() {
+		return null;
+	}
+
+	override buffer() {
+		return null;
+	}
+
+	override string() {
+		return null;
+	}
+
+	override array() {
+		return null;
+	}
+
+	override value() {
+		return null;
+	}
+}
+
+const nullReply = new NullReply();
+
+async function readIntegerReplyBody(
+	reader: BufferedReader,
+): Promise<Uint8Array> {
 	const line = await reader.readLine();
 	if (line == null) {
 		throw new InvalidStateError();
@@ -289,14 +532,15 @@ async function readIntegerReplyBody(reader: StreamBuffer): Promise<Uint8Array> {
 }
 
 async function readBulkReplyBody(
-	reader: StreamBuffer,
+	reader: BufferedReader,
+	code = BulkReplyCode,
 ): Promise<Uint8Array | null> {
 	const line = await reader.readLine();
 	if (line == null) {
 		throw new InvalidStateError();
 	}
 
-	if (line[0] !== BulkReplyCode) {
+	if (line[0] !== code) {
 		tryParseErrorReply(line);
 	}
 
@@ -320,7 +564,7 @@ async function readBulkReplyBody(
 }
 
 async function readSimpleStringReplyBody(
-	reader: StreamBuffer,
+	reader: BufferedReader,
 ): Promise<Uint8Array> {
 	const line = await reader.readLine();
 	if (line == null) {
@@ -334,7 +578,7 @@ async function readSimpleStringReplyBody(
 }
 
 export async function readArrayReplyBody(
-	reader: StreamBuffer,
+	reader: BufferedReader,
 ): Promise<types.ConditionalArray | types.BulkNil> {
 	const line = await reader.readLine();
 	if (line == null) {
@@ -347,43 +591,51 @@ export async function readArrayReplyBody(
 		return null;
 	}
 
-	// Pre-allocate array for better performance
-	const array: types.ConditionalArray = new Array(argCount);
+	return readElements(reader, argCount);
+}
 
-	for (let i = 0; i < argCount; i++) {
-		const peek = await reader.peek(1);
-		if (peek === null) {
-			throw new EOFError();
-		}
+async function readMapReplyBody(
+	reader: BufferedReader,
+): Promise<types.RedisMap> {
+	const line = await reader.readLine();
+	if (line == null) {
+		throw new InvalidStateError();
+	}
 
-		const code = peek[0];
-		switch (code) {
-			case SimpleStringCode: {
-				const reply = await SimpleStringReply.decode(reader);
-				array[i] = reply.string();
-				break;
-			}
-			case BulkReplyCode: {
-				const reply = await BulkReply.decode(reader);
-				array[i] = reply.bulk();
-				break;
-			}
-			case IntegerReplyCode: {
-				const reply = await IntegerReply.decode(reader);
-				array[i] = reply.integer();
-				break;
-			}
-			case ArrayReplyCode: {
-				const reply = await ArrayReply.decode(reader);
-				array[i] = reply.value();
-				break;
-			}
-			default: {
-				throw new InvalidStateError(`Unknown reply code: ${code}`);
-			}
+	const entryCount = parseSize(line);
+	const elements = await readElements(reader, entryCount * 2);
+	const map: types.RedisMap = new Map();
+	for (let i = 0; i < elements.length; i += 2) {
+		map.set(elements[i], elements[i + 1]);
+	}
+	return map;
+}
+
+/**
+ * Decodes the `count` elements of an aggregate reply. An error element is
+ * only thrown once the whole aggregate was read, so that the stream stays in
+ * sync with the replies.
+ */
+async function readElements(
+	reader: BufferedReader,
+	count: number,
+): Promise<types.ConditionalArray> {
+	// Pre-allocate array for better performance
+	const elements: types.ConditionalArray = new Array(count);
+	let error: ErrorReplyError | undefined;
+	for (let i = 0; i < count; i++) {
+		try {
+			const reply = await decodeReply(reader);
+			elements[i] = reply.value();
+		} catch (e) {
+			if (!(e instanceof ErrorReplyError)) throw e;
+			error ??= e;
 		}
 	}
-	return array;
+	if (error) {
+		throw error;
+	}
+	return elements;
 }
 
 export const okReply: SimpleStringReply = new SimpleStringReply(
@@ -404,6 +656,19 @@ function parseSize(line: Uint8Array): number {
 	return size;
 }
 
+function parseDouble(str: string): number {
+	switch (str) {
+		case "inf":
+			return Infinity;
+		case "-inf":
+			return -Infinity;
+		case "nan":
+			return NaN;
+		default:
+			return parseFloat(str);
+	}
+}
+
 function createDecodeError(code: number, expectedType: string): Error {
 	return new InvalidStateError(
 		`cannot decode '${
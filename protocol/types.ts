@@ -32,9 +32,28 @@ export type BulkString = string;
 export type BulkNil = null;
 
 /**
- * @description Represents the some type in the RESP2 protocol.
+ * @description Represents the **double** type in the RESP3 protocol.
  */
-export type Raw = SimpleString | Integer | Bulk | ConditionalArray | Binary;
+export type Double = number;
+
+/**
+ * @description Represents the **big number** type in the RESP3 protocol.
+ */
+export type BigNumber = bigint;
+
+/**
+ * @description Represents the some type in the RESP2 and RESP3 protocols.
+ */
+export type Raw =
+	| SimpleString
+	| Integer
+	| Bulk
+	| ConditionalArray
+	| Binary
+	| Double
+	| boolean
+	| BigNumber
+	| RedisMap;
 
 export type Binary = Uint8Array;
 
@@ -43,11 +62,27 @@ export type Binary = Uint8Array;
  */
 export type ConditionalArray = Raw[];
 
+/**
+ * @description Represents the **map** type in the RESP3 protocol.
+ */
+export type RedisMap = Map<Raw, Raw>;
+
+/**
+ * @description The RESP protocol version negotiated with the server.
+ */
+export type ProtocolVersion = 2 | 3;
+
 export interface RedisReply {
 	integer(): Integer;
-	string(): SimpleString;
+	/**
+	 * Returns `null` for a nil reply.
+	 */
+	string(): SimpleString | BulkNil;
 	bulk(): Bulk;
-	buffer(): Uint8Array;
+	/**
+	 * Returns `null` for a nil reply.
+	 */
+	buffer(): Binary | BulkNil;
 	array(): ConditionalArray | BulkNil;
 	value(): Raw;
 }
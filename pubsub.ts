@@ -1,7 +1,11 @@
 import type { CommandExecutor } from "./executor.ts";
-import { InvalidStateError } from "./errors.ts";
-import { readReply } from "./protocol/mod.ts";
-import { decoder } from "./utils.ts";
+import {
+	ErrorReplyError,
+	SubscriptionClosedError,
+	SubscriptionOverflowError,
+} from "./errors.ts";
+import { readReply, writeCommands } from "./protocol/mod.ts";
+import { decoder, logHandlerError } from "./utils.ts";
 
 type DefaultMessageType = string;
 type ValidMessageType = string | string[] | Uint8Array;
@@ -10,153 +14,564 @@ export interface RedisSubscription<
 	TMessage extends ValidMessageType = DefaultMessageType,
 > {
 	readonly isClosed: boolean;
-	receive(): AsyncIterableIterator<RedisPubSubMessage<TMessage>>;
-	receiveBinary(): AsyncIterableIterator<RedisPubSubMessage<TMessage>>;
+	/**
+	 * Yields the received messages. Every iterator gets its own copy of the
+	 * messages, starting with its first `next()` call.
+	 */
+	receive(
+		options?: RedisSubscriptionReceiveOptions,
+	): AsyncIterableIterator<RedisPubSubMessage<TMessage>>;
+	receiveBinary(
+		options?: RedisSubscriptionReceiveOptions,
+	): AsyncIterableIterator<RedisPubSubMessage<TMessage>>;
+	/**
+	 * Calls `handler` for the messages received through the subscribed
+	 * `channelOrPattern`. Returns a function which removes the handler.
+	 * Errors thrown by `handler` are logged with `console.error()`.
+	 *
+	 * ```ts
+	 * await sub.psubscribe("orders.*");
+	 * sub.on("orders.*", ({ channel, message }) => console.log(channel, message));
+	 * ```
+	 */
+	on(
+		channelOrPattern: string,
+		handler: RedisSubscriptionHandler<TMessage>,
+	): () => void;
 	psubscribe(...patterns: string[]): Promise<void>;
 	subscribe(...channels: string[]): Promise<void>;
 	punsubscribe(...patterns: string[]): Promise<void>;
 	unsubscribe(...channels: string[]): Promise<void>;
+	/**
+	 * Subscribes to shard channels. In a cluster, every channel must hash to
+	 * the slot served by the node of this subscription.
+	 */
+	ssubscribe(...shardChannels: string[]): Promise<void>;
+	sunsubscribe(...shardChannels: string[]): Promise<void>;
+	/**
+	 * The number of channels, patterns and shard channels confirmed by the
+	 * server.
+	 */
+	readonly counts: SubscriptionCounts;
+	addEventListener<K extends keyof RedisSubscriptionEventMap>(
+		type: K,
+		listener: (event: RedisSubscriptionEventMap[K]) => void,
+		options?: boolean | AddEventListenerOptions,
+	): void;
+	removeEventListener<K extends keyof RedisSubscriptionEventMap>(
+		type: K,
+		listener: (event: RedisSubscriptionEventMap[K]) => void,
+		options?: boolean | EventListenerOptions,
+	): void;
 	close(): void;
 }
 
+export type SubscriptionKind = "channel" | "pattern" | "shard";
+
+export type RedisSubscriptionHandler<
+	TMessage extends ValidMessageType = DefaultMessageType,
+> = (message: RedisPubSubMessage<TMessage>) => void | Promise<void>;
+
+/**
+ * What to do with a new message when the buffer of a consumer is full.
+ * `"error"` makes the iterator throw a `SubscriptionOverflowError` once it
+ * has yielded the buffered messages.
+ */
+export type SubscriptionOverflowPolicy =
+	| "drop-oldest"
+	| "drop-newest"
+	| "error";
+
+export interface RedisSubscriptionReceiveOptions {
+	/**
+	 * The maximum number of messages buffered for the iterator while it is
+	 * not consumed. Unbounded by default.
+	 */
+	bufferSize?: number;
+	/**
+	 * @default "drop-oldest"
+	 */
+	overflow?: SubscriptionOverflowPolicy;
+}
+
+export interface SubscriptionCounts {
+	channels: number;
+	patterns: number;
+	shardChannels: number;
+}
+
+export interface RedisSubscriptionEventMap {
+	/**
+	 * Dispatched for every channel confirmed by the server, including the ones
+	 * restored after a reconnect.
+	 */
+	subscribed: SubscriptionEvent;
+	unsubscribed: SubscriptionEvent;
+	/**
+	 * Dispatched when the connection was lost and is being reopened.
+	 */
+	reconnecting: SubscriptionEvent;
+	/**
+	 * Dispatched once every subscription has been restored after a reconnect.
+	 */
+	reconnected: SubscriptionEvent;
+}
+
+export class SubscriptionEvent extends Event {
+	constructor(
+		type: keyof RedisSubscriptionEventMap,
+		/**
+		 * The active subscription counts at the time of the event.
+		 */
+		readonly counts: SubscriptionCounts,
+		/**
+		 * The kind of the (un)subscribed channel.
+		 */
+		readonly kind?: SubscriptionKind,
+		readonly channel?: string,
+	) {
+		super(type);
+	}
+}
+
 export interface RedisPubSubMessage<TMessage = DefaultMessageType> {
 	pattern?: string;
 	channel: string;
 	message: TMessage;
 }
 
+const kinds: Record<string, SubscriptionKind> = {
+	subscribe: "channel",
+	unsubscribe: "channel",
+	psubscribe: "pattern",
+	punsubscribe: "pattern",
+	ssubscribe: "shard",
+	sunsubscribe: "shard",
+};
+
+interface Consumer {
+	messages: RedisPubSubMessage<ValidMessageType>[];
+	bufferSize: number;
+	overflow: SubscriptionOverflowPolicy;
+	error?: SubscriptionOverflowError;
+	wakeup?: () => void;
+}
+
+// Messages received while there is no iterator and no matching handler are
+// kept for the next iterator, up to this number.
+const BACKLOG_SIZE = 1000;
+
+interface PendingCommand {
+	command: string;
+	args: string[];
+	/**
+	 * The number of confirmations still expected from the server.
+	 */
+	remaining: number;
+	resolve: () => void;
+	reject: (error: Error) => void;
+}
+
 class RedisSubscriptionImpl<
 	TMessage extends ValidMessageType = DefaultMessageType,
-> implements RedisSubscription<TMessage> {
+> extends EventTarget implements RedisSubscription<TMessage> {
 	get isConnected(): boolean {
-		return this.executor.connection.isConnected;
+		return !this.closed && this.executor.connection.isConnected;
 	}
 
 	get isClosed(): boolean {
-		return this.executor.connection.isClosed;
+		return this.closed;
 	}
 
-	private channels = Object.create(null);
-	private patterns = Object.create(null);
+	get counts(): SubscriptionCounts {
+		return {
+			channels: this.subscriptions.channel.size,
+			patterns: this.subscriptions.pattern.size,
+			shardChannels: this.subscriptions.shard.size,
+		};
+	}
 
-	constructor(private executor: CommandExecutor) {}
+	private subscriptions: Record<SubscriptionKind, Set<string>> = {
+		channel: new Set(),
+		pattern: new Set(),
+		shard: new Set(),
+	};
+	private pending: PendingCommand[] = [];
+	private backlog: Consumer = {
+		messages: [],
+		bufferSize: BACKLOG_SIZE,
+		overflow: "drop-oldest",
+	};
+	private consumers = new Set<Consumer>();
+	private handlers = new Map<string, Set<RedisSubscriptionHandler<TMessage>>>();
+	private writing = Promise.resolve();
+	private reading = false;
+	private reconnecting = false;
+	private closed = false;
+	private error?: Error;
 
-	async psubscribe(...patterns: string[]) {
-		await this.executor.exec("PSUBSCRIBE", ...patterns);
-		for (const pat of patterns) {
-			this.patterns[pat] = true;
-		}
+	constructor(private executor: CommandExecutor) {
+		super();
 	}
 
-	async punsubscribe(...patterns: string[]) {
-		await this.executor.exec("PUNSUBSCRIBE", ...patterns);
-		for (const pat of patterns) {
-			delete this.patterns[pat];
-		}
+	psubscribe(...patterns: string[]): Promise<void> {
+		return this.send("PSUBSCRIBE", patterns);
 	}
 
-	async subscribe(...channels: string[]) {
-		await this.executor.exec("SUBSCRIBE", ...channels);
-		for (const chan of channels) {
-			this.channels[chan] = true;
-		}
+	punsubscribe(...patterns: string[]): Promise<void> {
+		return this.send("PUNSUBSCRIBE", patterns);
 	}
 
-	async unsubscribe(...channels: string[]) {
-		await this.executor.exec("UNSUBSCRIBE", ...channels);
-		for (const chan of channels) {
-			delete this.channels[chan];
-		}
+	subscribe(...channels: string[]): Promise<void> {
+		return this.send("SUBSCRIBE", channels);
 	}
 
-	receive(): AsyncIterableIterator<RedisPubSubMessage<TMessage>> {
-		return this.#_receive();
+	unsubscribe(...channels: string[]): Promise<void> {
+		return this.send("UNSUBSCRIBE", channels);
 	}
 
-	receiveBinary(): AsyncIterableIterator<RedisPubSubMessage<TMessage>> {
-		return this.#_receive(true);
+	ssubscribe(...shardChannels: string[]): Promise<void> {
+		return this.send("SSUBSCRIBE", shardChannels);
+	}
+
+	sunsubscribe(...shardChannels: string[]): Promise<void> {
+		return this.send("SUNSUBSCRIBE", shardChannels);
+	}
+
+	override addEventListener<K extends keyof RedisSubscriptionEventMap>(
+		type: K,
+		listener: (event: RedisSubscriptionEventMap[K]) => void,
+		options?: boolean | AddEventListenerOptions,
+	): void;
+	override addEventListener(
+		type: string,
+		listener: EventListenerOrEventListenerObject | null,
+		options?: boolean | AddEventListenerOptions,
+	): void;
+	override addEventListener(
+		type: string,
+		listener: EventListenerOrEventListenerObject | null,
+		options?: boolean | AddEventListenerOptions,
+	) {
+		super.addEventListener(type, listener, options);
+	}
+
+	override removeEventListener<K extends keyof RedisSubscriptionEventMap>(
+		type: K,
+		listener: (event: RedisSubscriptionEventMap[K]) => void,
+		options?: boolean | EventListenerOptions,
+	): void;
+	override removeEventListener(
+		type: string,
+		listener: EventListenerOrEventListenerObject | null,
+		options?: boolean | EventListenerOptions,
+	): void;
+	override removeEventListener(
+		type: string,
+		listener: EventListenerOrEventListenerObject | null,
+		options?: boolean | EventListenerOptions,
+	) {
+		super.removeEventListener(type, listener, options);
+	}
+
+	receive(
+		options?: RedisSubscriptionReceiveOptions,
+	): AsyncIterableIterator<RedisPubSubMessage<TMessage>> {
+		return this.#_receive(false, options);
+	}
+
+	receiveBinary(
+		options?: RedisSubscriptionReceiveOptions,
+	): AsyncIterableIterator<RedisPubSubMessage<TMessage>> {
+		return this.#_receive(true, options);
 	}
 
 	async *#_receive(
-		binary = false,
+		binary: boolean,
+		options: RedisSubscriptionReceiveOptions = {},
 	): AsyncIterableIterator<RedisPubSubMessage<TMessage>> {
-		let forceReconnect = false;
-		const connection = this.executor.connection;
-		while (this.isConnected) {
-			try {
-				let rep: [string, string, Uint8Array] | [
-					string,
-					string,
-					string,
-					Uint8Array,
-				];
-				try {
-					const reader = connection.reader.getReader();
-					const reply = await readReply(reader);
-					reader.releaseLock();
-					rep = reply.array() as [
-						string,
-						string,
-						Uint8Array,
-					] | [string, string, string, Uint8Array];
-				} catch (err) {
-					if (err instanceof Deno.errors.BadResource) {
-						// Connection already closed.
-						connection.close();
-						break;
-					}
-					throw err;
+		const consumer: Consumer = {
+			messages: [],
+			bufferSize: options.bufferSize ?? Infinity,
+			overflow: options.overflow ?? "drop-oldest",
+		};
+		if (this.consumers.size === 0) {
+			for (const message of this.backlog.messages.splice(0)) {
+				enqueue(consumer, message);
+			}
+		}
+		this.consumers.add(consumer);
+		try {
+			while (true) {
+				const received = consumer.messages.shift();
+				if (received) {
+					yield this.format(received, binary);
+					continue;
 				}
-				const ev = rep[0];
-
-				if (ev === "message" && rep.length === 3) {
-					const messageData = rep[2];
-					yield {
-						channel: rep[1],
-						message: (binary
-							? messageData
-							: (messageData instanceof Uint8Array
-								? decoder.decode(messageData)
-								: messageData)) as TMessage,
-					};
-				} else if (ev === "pmessage" && rep.length === 4) {
-					const messageData = rep[3];
-					yield {
-						pattern: rep[1],
-						channel: rep[2],
-						message: (binary
-							? messageData
-							: (messageData instanceof Uint8Array
-								? decoder.decode(messageData)
-								: messageData)) as TMessage,
-					};
+				if (consumer.error) throw consumer.error;
+				if (this.closed) {
+					if (this.error) throw this.error;
+					return;
 				}
+				await new Promise<void>((resolve) => consumer.wakeup = resolve);
+				consumer.wakeup = undefined;
+			}
+		} finally {
+			this.consumers.delete(consumer);
+		}
+	}
+
+	on(
+		channelOrPattern: string,
+		handler: RedisSubscriptionHandler<TMessage>,
+	): () => void {
+		let handlers = this.handlers.get(channelOrPattern);
+		if (!handlers) {
+			handlers = new Set();
+			this.handlers.set(channelOrPattern, handlers);
+		}
+		handlers.add(handler);
+		return () => {
+			handlers.delete(handler);
+			if (handlers.size === 0) {
+				this.handlers.delete(channelOrPattern);
+			}
+		};
+	}
+
+	close() {
+		this.closed = true;
+		this.executor.close();
+	}
+
+	/**
+	 * Writes a (un)subscribe command. The returned promise resolves once the
+	 * server has confirmed every channel of the command.
+	 */
+	private send(command: string, args: string[]): Promise<void> {
+		if (this.closed) {
+			return Promise.reject(
+				new SubscriptionClosedError("Subscription is closed"),
+			);
+		}
+		const { promise, resolve, reject } = Promise.withResolvers<void>();
+		const pending = { command, args, remaining: args.length, resolve, reject };
+		this.pending.push(pending);
+		// Commands sent while reconnecting are written once the connection is
+		// back.
+		if (!this.reconnecting) {
+			this.write(pending);
+		}
+		if (!this.reading) {
+			this.reading = true;
+			this.readLoop();
+		}
+		return promise;
+	}
+
+	private write({ command, args }: PendingCommand) {
+		const { connection } = this.executor;
+		this.writing = this.writing
+			.then(() => writeCommands(connection.writer, [{ command, args }]))
+			// A failed write also fails the read loop, which then reconnects or
+			// rejects the pending commands.
+			.catch(() => {});
+	}
+
+	private async readLoop() {
+		while (!this.closed) {
+			let frame: unknown[];
+			try {
+				const reply = await readReply(this.executor.connection.bufferedReader);
+				frame = reply.array() as unknown[];
 			} catch (error) {
-				if (
-					error instanceof InvalidStateError ||
-					error instanceof Deno.errors.BadResource
-				) {
-					forceReconnect = true;
-				} else throw error;
-			} finally {
-				if ((!this.isClosed && !this.isConnected) || forceReconnect) {
-					await connection.reconnect();
-					forceReconnect = false;
-
-					if (Object.keys(this.channels).length > 0) {
-						await this.subscribe(...Object.keys(this.channels));
-					}
-					if (Object.keys(this.patterns).length > 0) {
-						await this.psubscribe(...Object.keys(this.patterns));
-					}
+				if (this.closed) break;
+				if (error instanceof ErrorReplyError) {
+					this.pending.shift()?.reject(error);
+					continue;
+				}
+				try {
+					await this.reconnect();
+				} catch (error) {
+					this.error = error as Error;
+					this.close();
 				}
+				continue;
 			}
+			this.handle(frame);
+		}
+
+		const error = this.error ??
+			new SubscriptionClosedError("Subscription is closed");
+		for (const pending of this.pending.splice(0)) {
+			pending.reject(error);
+		}
+		for (const consumer of this.consumers) {
+			consumer.wakeup?.();
 		}
 	}
 
-	close() {
-		this.executor.connection.close();
+	private handle(frame: unknown[]) {
+		const type = frame[0] as string;
+		if ((type === "message" || type === "smessage") && frame.length === 3) {
+			this.deliver({
+				channel: frame[1] as string,
+				message: frame[2] as ValidMessageType,
+			});
+			return;
+		} else if (type === "pmessage" && frame.length === 4) {
+			this.deliver({
+				pattern: frame[1] as string,
+				channel: frame[2] as string,
+				message: frame[3] as ValidMessageType,
+			});
+			return;
+		}
+
+		const kind = kinds[type];
+		if (kind === undefined) return;
+		const active = this.subscriptions[kind];
+		const subscribed = !type.includes("unsubscribe");
+		const channel = frame[1] as string | null;
+		if (channel != null) {
+			if (subscribed) {
+				active.add(channel);
+			} else {
+				active.delete(channel);
+			}
+			this.dispatch(subscribed ? "subscribed" : "unsubscribed", kind, channel);
+		}
+
+		// Confirmations arrive in the order the commands were sent. Frames which
+		// do not match, e.g. a `sunsubscribe` sent by the server when a slot has
+		// moved, only update the state.
+		const pending = this.pending[0];
+		if (pending?.command.toLowerCase() !== type) return;
+		// Without arguments, every active channel of the kind is unsubscribed.
+		const done = pending.args.length > 0
+			? --pending.remaining === 0
+			: active.size === 0;
+		if (done) {
+			this.pending.shift();
+			pending.resolve();
+		}
+	}
+
+	private deliver(message: RedisPubSubMessage<ValidMessageType>) {
+		// Handlers are registered for the channel or pattern which was
+		// subscribed, not for the channel the message was published to.
+		const handlers = this.handlers.get(message.pattern ?? message.channel);
+		for (const handler of handlers ?? []) {
+			try {
+				Promise.resolve(handler(this.format(message, false))).catch(
+					logSubscriptionHandlerError,
+				);
+			} catch (error) {
+				logSubscriptionHandlerError(error);
+			}
+		}
+
+		if (this.consumers.size > 0) {
+			for (const consumer of this.consumers) {
+				enqueue(consumer, message);
+			}
+		} else if (!handlers) {
+			enqueue(this.backlog, message);
+		}
 	}
+
+	private format(
+		message: RedisPubSubMessage<ValidMessageType>,
+		binary: boolean,
+	): RedisPubSubMessage<TMessage> {
+		const messageData = message.message;
+		return {
+			...message,
+			message:
+				(binary
+					? messageData
+					: (messageData instanceof Uint8Array
+						? decoder.decode(messageData)
+						: messageData)) as TMessage,
+		};
+	}
+
+	private async reconnect() {
+		this.dispatch("reconnecting");
+		if (this.closed) return;
+		this.reconnecting = true;
+		try {
+			await this.executor.connection.reconnect();
+		} finally {
+			this.reconnecting = false;
+		}
+		if (this.closed) {
+			this.executor.close();
+			return;
+		}
+
+		// The new connection has no subscriptions. Restore them before writing
+		// the commands which were not confirmed yet.
+		const outstanding = this.pending.splice(0);
+		const restored: Promise<void>[] = [];
+		for (
+			const [kind, command] of [
+				["channel", "SUBSCRIBE"],
+				["pattern", "PSUBSCRIBE"],
+				["shard", "SSUBSCRIBE"],
+			] as const
+		) {
+			const active = this.subscriptions[kind];
+			if (active.size > 0) {
+				restored.push(this.send(command, [...active]));
+				active.clear();
+			}
+		}
+		for (const pending of outstanding) {
+			pending.remaining = pending.args.length;
+			this.pending.push(pending);
+			this.write(pending);
+		}
+		Promise.all(restored).then(() => this.dispatch("reconnected"), () => {});
+	}
+
+	private dispatch(
+		type: keyof RedisSubscriptionEventMap,
+		kind?: SubscriptionKind,
+		channel?: string,
+	) {
+		this.dispatchEvent(
+			new SubscriptionEvent(type, this.counts, kind, channel),
+		);
+	}
+}
+
+function logSubscriptionHandlerError(error: unknown) {
+	logHandlerError("A subscription handler threw an error", error);
+}
+
+function enqueue(
+	consumer: Consumer,
+	message: RedisPubSubMessage<ValidMessageType>,
+) {
+	if (consumer.error) return;
+	if (consumer.messages.length >= consumer.bufferSize) {
+		switch (consumer.overflow) {
+			case "drop-newest":
+				return;
+			case "drop-oldest":
+				consumer.messages.shift();
+				break;
+			case "error":
+				consumer.error = new SubscriptionOverflowError(
+					`More than ${consumer.bufferSize} messages are buffered`,
+				);
+				consumer.wakeup?.();
+				return;
+		}
+	}
+	consumer.messages.push(message);
+	consumer.wakeup?.();
 }
 
 export async function subscribe<
@@ -180,3 +595,14 @@ export async function psubscribe<
 	await sub.psubscribe(...patterns);
 	return sub;
 }
+
+export async function ssubscribe<
+	TMessage extends ValidMessageType = DefaultMessageType,
+>(
+	executor: CommandExecutor,
+	...shardChannels: string[]
+): Promise<RedisSubscription<TMessage>> {
+	const sub = new RedisSubscriptionImpl<TMessage>(executor);
+	await sub.ssubscribe(...shardChannels);
+	return sub;
+}
@@ -11,6 +11,12 @@ import type {
 	ClusterFailoverMode,
 	ClusterResetMode,
 	ClusterSetSlotSubcommand,
+	FunctionFlushMode,
+	FunctionLibraryInfo,
+	FunctionListOpts,
+	FunctionLoadOpts,
+	FunctionRestorePolicy,
+	FunctionStatsReply,
 	GeoRadiusOpts,
 	GeoUnit,
 	HScanOpts,
@@ -42,9 +48,14 @@ import type {
 	ZUnionstoreOpts,
 } from "./command.ts";
 import { RedisConnection } from "./connection.ts";
+import { createStreamConsumer } from "./consumer.ts";
+import type { StreamConsumerOptions } from "./consumer.ts";
 import type { Connection } from "./connection.ts";
 import type { RedisConnectionOptions } from "./connection.ts";
 import { CommandExecutor, MuxExecutor } from "./executor.ts";
+import { rangeStream, readStream } from "./iterator.ts";
+import type { StreamIteratorOptions } from "./iterator.ts";
+import type { AutoPipelineOptions, MuxExecutorOptions } from "./executor.ts";
 import type {
 	Binary,
 	Bulk,
@@ -53,12 +64,22 @@ import type {
 	ConditionalArray,
 	Integer,
 	Raw,
+	RedisMap,
 	RedisReply,
 	RedisValue,
 	SimpleString,
 } from "./protocol/mod.ts";
+import { monitor } from "./monitor.ts";
 import { createRedisPipeline } from "./pipeline.ts";
-import { psubscribe, subscribe } from "./pubsub.ts";
+import { psubscribe, ssubscribe, subscribe } from "./pubsub.ts";
+import { bindScript } from "./script.ts";
+import type {
+	RedisBoundScript,
+	RedisScript,
+	ScriptDefinition,
+} from "./script.ts";
+import { transaction } from "./transaction.ts";
+import type { TransactionCallback, TransactionOptions } from "./transaction.ts";
 import {
 	convertMap,
 	isCondArray,
@@ -74,6 +95,9 @@ import {
 	rawstr,
 	StartEndCount,
 	XAddFieldValues,
+	XAddOpts,
+	XAutoClaimOpts,
+	XAutoClaimReply,
 	XClaimJustXId,
 	XClaimMessages,
 	XClaimOpts,
@@ -88,10 +112,12 @@ import {
 	XKeyIdGroupLike,
 	XKeyIdLike,
 	XMaxlen,
+	XMessage,
 	XReadGroupOpts,
 	XReadIdData,
 	XReadOpts,
-	XReadStreamRaw,
+	XReadReplyRaw,
+	XTrimOpts,
 } from "./stream.ts";
 
 export interface Redis extends RedisCommands {
@@ -165,7 +191,9 @@ class RedisImpl implements Redis {
 		...args: RedisValue[]
 	): Promise<T> {
 		const reply = await this.executor.exec(command, ...args);
-		return reply.value() as T;
+		const value = reply.value();
+		// Keep the RESP2 shape of the reply when a RESP3 double is received.
+		return (typeof value === "number" ? reply.string() : value) as T;
 	}
 
 	async execArrayReply<T extends Raw = Raw>(
@@ -173,7 +201,44 @@ class RedisImpl implements Redis {
 		...args: RedisValue[]
 	): Promise<T[]> {
 		const reply = await this.executor.exec(command, ...args);
-		return reply.value() as Array<T>;
+		const value = reply.value();
+		// Keep the RESP2 shape of the reply when a RESP3 map is received.
+		return (value instanceof Map ? reply.array() : value) as Array<T>;
+	}
+
+	async execMapReply<T extends Raw = Raw>(
+		command: string,
+		...args: RedisValue[]
+	): Promise<Map<string, T>> {
+		const reply = await this.executor.exec(command, ...args);
+		return convertMap(
+			reply.value() as ConditionalArray | RedisMap,
+		) as Map<string, T>;
+	}
+
+	/**
+	 * Executes a sorted set command whose reply may carry scores. RESP3 servers
+	 * reply with `[member, score]` pairs and double scores, which are turned
+	 * back into the flat `[member, score, ...]` strings of RESP2.
+	 */
+	private async execScoredArrayReply<T extends Raw = Raw>(
+		command: string,
+		...args: RedisValue[]
+	): Promise<T[]> {
+		const reply = await this.executor.exec(command, ...args);
+		const value = reply.value() as ConditionalArray | BulkNil;
+		return (value &&
+			value.flatMap((x) =>
+				Array.isArray(x) ? x.map(formatScore) : formatScore(x)
+			)) as T[];
+	}
+
+	async execArrayReplyOfMaps(
+		command: string,
+		...args: RedisValue[]
+	): Promise<(ConditionalArray | RedisMap)[]> {
+		const reply = await this.executor.exec(command, ...args);
+		return reply.value() as (ConditionalArray | RedisMap)[];
 	}
 
 	async execIntegerOrNilReply(
@@ -189,7 +254,7 @@ class RedisImpl implements Redis {
 		...args: RedisValue[]
 	): Promise<SimpleString | BulkNil> {
 		const reply = await this.executor.exec(command, ...args);
-		return reply.string() as SimpleString | BulkNil;
+		return reply.string();
 	}
 
 	aclCat(categoryname?: string) {
@@ -335,13 +400,13 @@ class RedisImpl implements Redis {
 	}
 
 	bzpopmin(timeout: number, ...keys: string[]) {
-		return this.execArrayReply("BZPOPMIN", ...keys, timeout) as Promise<
+		return this.execScoredArrayReply("BZPOPMIN", ...keys, timeout) as Promise<
 			[BulkString, BulkString, BulkString] | BulkNil
 		>;
 	}
 
 	bzpopmax(timeout: number, ...keys: string[]) {
-		return this.execArrayReply("BZPOPMAX", ...keys, timeout) as Promise<
+		return this.execScoredArrayReply("BZPOPMAX", ...keys, timeout) as Promise<
 			[BulkString, BulkString, BulkString] | BulkNil
 		>;
 	}
@@ -592,6 +657,10 @@ class RedisImpl implements Redis {
 		return this.execArrayReply<BulkString>("CONFIG", "GET", parameter);
 	}
 
+	configGetMap(parameter: string) {
+		return this.execMapReply<BulkString>("CONFIG", "GET", parameter);
+	}
+
 	configResetStat() {
 		return this.execStatusReply("CONFIG", "RESETSTAT");
 	}
@@ -604,6 +673,16 @@ class RedisImpl implements Redis {
 		return this.execStatusReply("CONFIG", "SET", parameter, value);
 	}
 
+	async createStreamConsumer(options: StreamConsumerOptions) {
+		const executor = await this.createDedicatedExecutor();
+		try {
+			return await createStreamConsumer(this, executor, options);
+		} catch (error) {
+			executor.close();
+			throw error;
+		}
+	}
+
 	dbsize() {
 		return this.execIntegerReply("DBSIZE");
 	}
@@ -640,7 +719,7 @@ class RedisImpl implements Redis {
 		return this.execBulkReply<BulkString>("ECHO", message);
 	}
 
-	eval(script: string, keys: string[], args: string[]) {
+	eval(script: string, keys: string[], args: RedisValue[]) {
 		return this.execReply(
 			"EVAL",
 			script,
@@ -650,7 +729,7 @@ class RedisImpl implements Redis {
 		);
 	}
 
-	evalsha(sha1: string, keys: string[], args: string[]) {
+	evalsha(sha1: string, keys: string[], args: RedisValue[]) {
 		return this.execReply(
 			"EVALSHA",
 			sha1,
@@ -676,6 +755,14 @@ class RedisImpl implements Redis {
 		return this.execIntegerReply("EXPIREAT", key, timestamp);
 	}
 
+	fcall(func: string, keys: string[], args: RedisValue[]) {
+		return this.execReply("FCALL", func, keys.length, ...keys, ...args);
+	}
+
+	fcallRo(func: string, keys: string[], args: RedisValue[]) {
+		return this.execReply("FCALL_RO", func, keys.length, ...keys, ...args);
+	}
+
 	flushall(async?: boolean) {
 		if (async) {
 			return this.execStatusReply("FLUSHALL", "ASYNC");
@@ -690,6 +777,115 @@ class RedisImpl implements Redis {
 		return this.execStatusReply("FLUSHDB");
 	}
 
+	functionDelete(libraryName: string) {
+		return this.execStatusReply("FUNCTION", "DELETE", libraryName);
+	}
+
+	functionDump() {
+		return this.execBinaryReply("FUNCTION", "DUMP") as Promise<Binary>;
+	}
+
+	functionFlush(mode?: FunctionFlushMode) {
+		if (mode) {
+			return this.execStatusReply("FUNCTION", "FLUSH", mode);
+		}
+		return this.execStatusReply("FUNCTION", "FLUSH");
+	}
+
+	functionList(opts?: FunctionListOpts) {
+		const args: string[] = [];
+		if (opts?.libraryName !== undefined) {
+			args.push("LIBRARYNAME", opts.libraryName);
+		}
+		if (opts?.withCode) {
+			args.push("WITHCODE");
+		}
+		return this.execArrayReplyOfMaps("FUNCTION", "LIST", ...args).then(
+			(raws) =>
+				raws.map((raw) => {
+					const data = convertMap(raw);
+					const library: FunctionLibraryInfo = {
+						libraryName: rawstr(data.get("library_name") ?? null),
+						engine: rawstr(data.get("engine") ?? null),
+						functions: (data.get("functions") as (
+							| ConditionalArray
+							| RedisMap
+						)[]).map((raw) => {
+							const data = convertMap(raw);
+							return {
+								name: rawstr(data.get("name") ?? null),
+								description: (data.get("description") ?? null) as
+									| string
+									| null,
+								flags: (data.get("flags") ?? []) as string[],
+							};
+						}),
+					};
+					if (data.has("library_code")) {
+						library.libraryCode = rawstr(data.get("library_code") ?? null);
+					}
+					return library;
+				}),
+		);
+	}
+
+	functionLoad(code: string, opts?: FunctionLoadOpts) {
+		if (opts?.replace) {
+			return this.execBulkReply<BulkString>(
+				"FUNCTION",
+				"LOAD",
+				"REPLACE",
+				code,
+			);
+		}
+		return this.execBulkReply<BulkString>("FUNCTION", "LOAD", code);
+	}
+
+	functionRestore(serializedValue: Binary, policy?: FunctionRestorePolicy) {
+		if (policy) {
+			return this.execStatusReply(
+				"FUNCTION",
+				"RESTORE",
+				serializedValue,
+				policy,
+			);
+		}
+		return this.execStatusReply("FUNCTION", "RESTORE", serializedValue);
+	}
+
+	functionStats() {
+		return this.execReply("FUNCTION", "STATS").then(
+			(raw): FunctionStatsReply => {
+				const data = convertMap(raw as ConditionalArray | RedisMap);
+				const running = data.get("running_script") as
+					| ConditionalArray
+					| RedisMap
+					| null;
+				const script = running ? convertMap(running) : null;
+				const engines: FunctionStatsReply["engines"] = {};
+				for (
+					const [engine, stats] of convertMap(
+						data.get("engines") as ConditionalArray | RedisMap,
+					)
+				) {
+					const data = convertMap(stats as ConditionalArray | RedisMap);
+					engines[engine] = {
+						librariesCount: rawnum(data.get("libraries_count") ?? null),
+						functionsCount: rawnum(data.get("functions_count") ?? null),
+					};
+				}
+				return {
+					runningScript: script && {
+						name: rawstr(script.get("name") ?? null),
+						command: (script.get("command") ?? []) as string[],
+						durationMs: rawnum(script.get("duration_ms") ?? null),
+					},
+					engines,
+				};
+			},
+		);
+	}
+
 	// deno-lint-ignore no-explicit-any
 	geoadd(key: string, ...params: any[]) {
 		const args: (string | number)[] = [key];
@@ -813,6 +1009,10 @@ class RedisImpl implements Redis {
 		return this.execArrayReply<BulkString>("HGETALL", key);
 	}
 
+	hgetallMap(key: string) {
+		return this.execMapReply<BulkString>("HGETALL", key);
+	}
+
 	hincrby(key: string, field: string, increment: number) {
 		return this.execIntegerReply("HINCRBY", key, field, increment);
 	}
@@ -1051,7 +1251,7 @@ class RedisImpl implements Redis {
 	}
 
 	monitor() {
-		throw new Error("not supported yet");
+		return monitor(this.executor.connection.duplicate());
 	}
 
 	move(key: string, db: string) {
@@ -1151,16 +1351,54 @@ class RedisImpl implements Redis {
 		return this.execIntegerReply("PUBLISH", channel, message);
 	}
 
-	subscribe<TMessage extends string | string[] | Uint8Array = string>(
+	spublish(shardChannel: string, message: RedisValue) {
+		return this.execIntegerReply("SPUBLISH", shardChannel, message);
+	}
+
+	async subscribe<TMessage extends string | string[] | Uint8Array = string>(
 		...channels: string[]
 	) {
-		return subscribe<TMessage>(this.executor, ...channels);
+		const executor = await this.createDedicatedExecutor();
+		try {
+			return await subscribe<TMessage>(executor, ...channels);
+		} catch (error) {
+			executor.close();
+			throw error;
+		}
 	}
 
-	psubscribe<TMessage extends string | string[] | Uint8Array = string>(
+	async psubscribe<TMessage extends string | string[] | Uint8Array = string>(
 		...patterns: string[]
 	) {
-		return psubscribe<TMessage>(this.executor, ...patterns);
+		const executor = await this.createDedicatedExecutor();
+		try {
+			return await psubscribe<TMessage>(executor, ...patterns);
+		} catch (error) {
+			executor.close();
+			throw error;
+		}
+	}
+
+	async ssubscribe<TMessage extends string | string[] | Uint8Array = string>(
+		...shardChannels: string[]
+	) {
+		const executor = await this.createDedicatedExecutor();
+		try {
+			return await ssubscribe<TMessage>(executor, ...shardChannels);
+		} catch (error) {
+			executor.close();
+			throw error;
+		}
+	}
+
+	/**
+	 * Opens a new connection with the same options, so that commands which
+	 * take over a connection (e.g. `SUBSCRIBE`) leave this client usable.
+	 */
+	private async createDedicatedExecutor(): Promise<CommandExecutor> {
+		const connection = this.executor.connection.duplicate();
+		await connection.connect();
+		return new MuxExecutor(connection);
 	}
 
 	pubsubChannels(pattern?: string) {
@@ -1182,6 +1420,25 @@ class RedisImpl implements Redis {
 		);
 	}
 
+	pubsubShardChannels(pattern?: string) {
+		if (pattern !== undefined) {
+			return this.execArrayReply<BulkString>(
+				"PUBSUB",
+				"SHARDCHANNELS",
+				pattern,
+			);
+		}
+		return this.execArrayReply<BulkString>("PUBSUB", "SHARDCHANNELS");
+	}
+
+	pubsubShardNumsub(...shardChannels: string[]) {
+		return this.execArrayReply<BulkString | Integer>(
+			"PUBSUB",
+			"SHARDNUMSUB",
+			...shardChannels,
+		);
+	}
+
 	pttl(key: string) {
 		return this.execIntegerReply("PTTL", key);
 	}
@@ -1268,6 +1525,12 @@ class RedisImpl implements Redis {
 		return this.execIntegerReply("SCARD", key);
 	}
 
+	script<T = Raw>(
+		script: ScriptDefinition | RedisScript<T>,
+	): RedisBoundScript<T> {
+		return bindScript(this, script);
+	}
+
 	scriptDebug(mode: ScriptDebugMode) {
 		return this.execStatusReply("SCRIPT", "DEBUG", mode);
 	}
@@ -1475,6 +1738,18 @@ class RedisImpl implements Redis {
 		return this.execBulkReply("STRALGO", algorithm, target, a, b, ...args);
 	}
 
+	async *streamIterator(
+		key: string,
+		options?: StreamIteratorOptions,
+	): AsyncIterableIterator<XMessage> {
+		const executor = await this.createDedicatedExecutor();
+		try {
+			yield* readStream(create(executor), key, options);
+		} finally {
+			executor.close();
+		}
+	}
+
 	strlen(key: string) {
 		return this.execIntegerReply("STRLEN", key);
 	}
@@ -1503,6 +1778,19 @@ class RedisImpl implements Redis {
 		return this.execIntegerReply("TOUCH", ...keys);
 	}
 
+	async transaction(
+		keys: string[],
+		fn: TransactionCallback,
+		options?: TransactionOptions,
+	) {
+		const executor = await this.createDedicatedExecutor();
+		try {
+			return await transaction(executor, keys, fn, options);
+		} finally {
+			executor.close();
+		}
+	}
+
 	ttl(key: string) {
 		return this.execIntegerReply("TTL", key);
 	}
@@ -1540,16 +1828,27 @@ class RedisImpl implements Redis {
 		key: string,
 		xid: XIdAdd,
 		fieldValues: XAddFieldValues,
-		maxlen: XMaxlen | undefined = undefined,
+		opts?: XMaxlen | (XTrimOpts & { nomkstream?: false }),
+	): Promise<XId>;
+	xadd(
+		key: string,
+		xid: XIdAdd,
+		fieldValues: XAddFieldValues,
+		opts: XAddOpts,
+	): Promise<XId | BulkNil>;
+	xadd(
+		key: string,
+		xid: XIdAdd,
+		fieldValues: XAddFieldValues,
+		opts?: XMaxlen | XAddOpts,
 	) {
 		const args: RedisValue[] = [key];
 
-		if (maxlen) {
-			args.push("MAXLEN");
-			if (maxlen.approx) {
-				args.push("~");
-			}
-			args.push(maxlen.elements.toString());
+		if (opts && "nomkstream" in opts && opts.nomkstream) {
+			args.push("NOMKSTREAM");
+		}
+		if (opts) {
+			this.pushXTrimArgs(args, opts);
 		}
 
 		args.push(xidstr(xid));
@@ -1569,7 +1868,96 @@ class RedisImpl implements Redis {
 		return this.execBulkReply<BulkString>(
 			"XADD",
 			...args,
-		).then((rawId) => parseXId(rawId));
+		).then((rawId) => rawId === null ? null : parseXId(rawId));
+	}
+
+	private pushXTrimArgs(
+		args: RedisValue[],
+		opts: XMaxlen | XTrimOpts,
+	): void {
+		if ("elements" in opts) {
+			args.push("MAXLEN");
+			if (opts.approx) {
+				args.push("~");
+			}
+			args.push(opts.elements);
+			return;
+		}
+		if (opts.minid !== undefined) {
+			args.push("MINID");
+		} else if (opts.maxlen !== undefined) {
+			args.push("MAXLEN");
+		} else {
+			return;
+		}
+		if (opts.approx !== undefined) {
+			args.push(opts.approx ? "~" : "=");
+		}
+		args.push(
+			opts.minid !== undefined ? xidstr(opts.minid) : opts.maxlen!,
+		);
+		if (opts.limit !== undefined) {
+			args.push("LIMIT", opts.limit);
+		}
+	}
+
+	xautoclaim(
+		key: string,
+		group: string,
+		consumer: string,
+		minIdleTime: number,
+		start: XIdInput,
+		opts?: XAutoClaimOpts,
+	) {
+		const args = [];
+		if (opts?.count) {
+			args.push("COUNT");
+			args.push(opts.count);
+		}
+
+		if (opts?.justid) {
+			args.push("JUSTID");
+		}
+
+		return this.execReply(
+			"XAUTOCLAIM",
+			key,
+			group,
+			consumer,
+			minIdleTime,
+			xidstr(start),
+			...args,
+		).then((raw): XAutoClaimReply => {
+			const [nextId, claimed, deleted = []] = raw as [
+				string,
+				(XReadIdData | BulkString | BulkNil)[],
+				BulkString[]?,
+			];
+			const deletedIds = deleted.map((xid) => parseXId(xid));
+			if (opts?.justid) {
+				const xids = [];
+				for (const r of claimed) {
+					if (typeof r === "string") {
+						xids.push(parseXId(r));
+					}
+				}
+				return { kind: "justxid", nextId: parseXId(nextId), xids, deletedIds };
+			}
+
+			const messages = [];
+			for (const r of claimed) {
+				// Redis 6.2 replies with nil for the deleted entries.
+				if (r instanceof Array) {
+					messages.push(parseXMessage(r));
+				}
+			}
+			return {
+				kind: "messages",
+				nextId: parseXId(nextId),
+				messages,
+				deletedIds,
+			};
+		});
 	}
 
 	xclaim(key: string, opts: XClaimOpts, ...xids: XIdInput[]) {
@@ -1698,12 +2086,14 @@ class RedisImpl implements Redis {
 	}
 
 	xinfoStream(key: string) {
-		return this.execArrayReply<Raw>("XINFO", "STREAM", key).then(
+		return this.execReply("XINFO", "STREAM", key).then(
 			(raw) => {
 				// Note that you should not rely on the fields
 				// exact position, nor on the number of fields,
 				// new fields may be added in the future.
-				const data: Map<string, Raw> = convertMap(raw);
+				const data: Map<string, Raw> = convertMap(
+					raw as ConditionalArray | RedisMap,
+				);
 
 				const firstEntry = parseXMessage(
 					data.get("first-entry") as XReadIdData,
@@ -1733,7 +2123,7 @@ class RedisImpl implements Redis {
 			args.push("COUNT");
 			args.push(count);
 		}
-		return this.execArrayReply<Raw>("XINFO", "STREAM", key, "FULL", ...args)
+		return this.execReply("XINFO", "STREAM", key, "FULL", ...args)
 			.then(
 				(raw) => {
 					// Note that you should not rely on the fields
@@ -1741,7 +2131,9 @@ class RedisImpl implements Redis {
 					// new fields may be added in the future.
 					if (raw == null) throw "no data";
 
-					const data: Map<string, Raw> = convertMap(raw);
+					const data: Map<string, Raw> = convertMap(
+						raw as ConditionalArray | RedisMap,
+					);
 					if (data === undefined) throw "no data converted";
 
 					const entries = (data.get("entries") as ConditionalArray).map((
@@ -1762,7 +2154,7 @@ class RedisImpl implements Redis {
 	}
 
 	xinfoGroups(key: string) {
-		return this.execArrayReply<ConditionalArray>("XINFO", "GROUPS", key).then(
+		return this.execArrayReplyOfMaps("XINFO", "GROUPS", key).then(
 			(raws) =>
 				raws.map((raw) => {
 					const data = convertMap(raw);
@@ -1779,7 +2171,7 @@ class RedisImpl implements Redis {
 	}
 
 	xinfoConsumers(key: string, group: string) {
-		return this.execArrayReply<ConditionalArray>(
+		return this.execArrayReplyOfMaps(
 			"XINFO",
 			"CONSUMERS",
 			key,
@@ -1826,8 +2218,14 @@ class RedisImpl implements Redis {
 		consumer?: string,
 	) {
 		const args = [];
-		args.push(startEndCount.start);
-		args.push(startEndCount.end);
+		if (startEndCount.idle !== undefined) {
+			args.push("IDLE");
+			args.push(startEndCount.idle);
+		}
+		// Plain numbers are sent as is, i.e. as a millisecond time.
+		const { start, end } = startEndCount;
+		args.push(typeof start === "object" ? xidstr(start) : start);
+		args.push(typeof end === "object" ? xidstr(end) : end);
 		args.push(startEndCount.count);
 
 		if (consumer) {
@@ -1854,6 +2252,15 @@ class RedisImpl implements Redis {
 		);
 	}
 
+	xrangeIterator(
+		key: string,
+		start?: XIdNeg,
+		end?: XIdPos,
+		pageSize?: number,
+	) {
+		return rangeStream(this, key, start, end, pageSize);
+	}
+
 	xrevrange(
 		key: string,
 		start: XIdPos,
@@ -1902,10 +2309,10 @@ class RedisImpl implements Redis {
 			}
 		}
 
-		return this.execArrayReply<XReadStreamRaw>(
+		return this.execReply(
 			"XREAD",
 			...args.concat(theKeys).concat(theXIds),
-		).then((raw) => parseXReadReply(raw));
+		).then((raw) => parseXReadReply(raw as XReadReplyRaw));
 	}
 
 	xreadgroup(
@@ -1944,21 +2351,16 @@ class RedisImpl implements Redis {
 			}
 		}
 
-		return this.execArrayReply<XReadStreamRaw>(
+		return this.execReply(
 			"XREADGROUP",
 			...args.concat(theKeys).concat(theXIds),
-		).then((raw) => parseXReadReply(raw));
+		).then((raw) => parseXReadReply(raw as XReadReplyRaw));
 	}
 
-	xtrim(key: string, maxlen: XMaxlen) {
-		const args = [];
-		if (maxlen.approx) {
-			args.push("~");
-		}
-
-		args.push(maxlen.elements);
-
-		return this.execIntegerReply("XTRIM", key, "MAXLEN", ...args);
+	xtrim(key: string, opts: XMaxlen | XTrimOpts) {
+		const args: RedisValue[] = [key];
+		this.pushXTrimArgs(args, opts);
+		return this.execIntegerReply("XTRIM", ...args);
 	}
 
 	zadd(
@@ -2044,7 +2446,7 @@ class RedisImpl implements Redis {
 		if (opts?.withScore) {
 			args.push("WITHSCORES");
 		}
-		return this.execArrayReply("ZINTER", ...args);
+		return this.execScoredArrayReply("ZINTER", ...args);
 	}
 
 	zinterstore(
@@ -2098,16 +2500,16 @@ class RedisImpl implements Redis {
 
 	zpopmax(key: string, count?: number) {
 		if (count !== undefined) {
-			return this.execArrayReply<BulkString>("ZPOPMAX", key, count);
+			return this.execScoredArrayReply<BulkString>("ZPOPMAX", key, count);
 		}
-		return this.execArrayReply<BulkString>("ZPOPMAX", key);
+		return this.execScoredArrayReply<BulkString>("ZPOPMAX", key);
 	}
 
 	zpopmin(key: string, count?: number) {
 		if (count !== undefined) {
-			return this.execArrayReply<BulkString>("ZPOPMIN", key, count);
+			return this.execScoredArrayReply<BulkString>("ZPOPMIN", key, count);
 		}
-		return this.execArrayReply<BulkString>("ZPOPMIN", key);
+		return this.execScoredArrayReply<BulkString>("ZPOPMIN", key);
 	}
 
 	zrange(
@@ -2117,7 +2519,7 @@ class RedisImpl implements Redis {
 		opts?: ZRangeOpts,
 	) {
 		const args = this.pushZRangeOpts([key, start, stop], opts);
-		return this.execArrayReply<BulkString>("ZRANGE", ...args);
+		return this.execScoredArrayReply<BulkString>("ZRANGE", ...args);
 	}
 
 	zrangebylex(
@@ -2137,7 +2539,7 @@ class RedisImpl implements Redis {
 		opts?: ZRangeByScoreOpts,
 	) {
 		const args = this.pushZRangeOpts([key, min, max], opts);
-		return this.execArrayReply<BulkString>("ZRANGEBYSCORE", ...args);
+		return this.execScoredArrayReply<BulkString>("ZRANGEBYSCORE", ...args);
 	}
 
 	zrank(key: string, member: string) {
@@ -2167,7 +2569,7 @@ class RedisImpl implements Redis {
 		opts?: ZRangeOpts,
 	) {
 		const args = this.pushZRangeOpts([key, start, stop], opts);
-		return this.execArrayReply<BulkString>("ZREVRANGE", ...args);
+		return this.execScoredArrayReply<BulkString>("ZREVRANGE", ...args);
 	}
 
 	zrevrangebylex(
@@ -2187,7 +2589,7 @@ class RedisImpl implements Redis {
 		opts?: ZRangeByScoreOpts,
 	) {
 		const args = this.pushZRangeOpts([key, max, min], opts);
-		return this.execArrayReply<BulkString>("ZREVRANGEBYSCORE", ...args);
+		return this.execScoredArrayReply<BulkString>("ZREVRANGEBYSCORE", ...args);
 	}
 
 	private pushZRangeOpts(
@@ -2275,17 +2677,30 @@ class RedisImpl implements Redis {
 	}
 
 	tx() {
-		return createRedisPipeline(this.executor.connection, true);
+		return createRedisPipeline(this.executor, true);
 	}
 
 	pipeline() {
-		return createRedisPipeline(this.executor.connection);
+		return createRedisPipeline(this.executor);
 	}
 }
 
 export interface RedisConnectOptions extends RedisConnectionOptions {
 	hostname: string;
 	port?: number | string;
+	/**
+	 * The maximum number of commands which may wait for their replies at once
+	 * on the connection.
+	 * @default 256
+	 */
+	maxInFlight?: number;
+	/**
+	 * Coalesces the commands issued in the same event loop tick, or within a
+	 * window of `windowMicros`, into a single write without an explicit
+	 * `pipeline()`.
+	 * @default false
+	 */
+	autoPipeline?: boolean | AutoPipelineOptions;
 }
 
 /**
@@ -2301,7 +2716,10 @@ export interface RedisConnectOptions extends RedisConnectionOptions {
 export async function connect(options: RedisConnectOptions): Promise<Redis> {
 	const connection = createRedisConnection(options);
 	await connection.connect();
-	const executor = new MuxExecutor(connection);
+	const executor = new MuxExecutor(connection, {
+		maxInFlight: options.maxInFlight,
+		autoPipeline: options.autoPipeline,
+	});
 	return create(executor);
 }
 
@@ -2319,7 +2737,10 @@ export async function connect(options: RedisConnectOptions): Promise<Redis> {
  */
 export function createLazyClient(options: RedisConnectOptions): Redis {
 	const connection = createRedisConnection(options);
-	const executor = createLazyExecutor(connection);
+	const executor = createLazyExecutor(connection, {
+		maxInFlight: options.maxInFlight,
+		autoPipeline: options.autoPipeline,
+	});
 	return create(executor);
 }
 
@@ -2368,22 +2789,37 @@ export function parseURL(url: string): RedisConnectOptions {
 }
 
 function createRedisConnection(options: RedisConnectOptions): Connection {
-	const { hostname, port = 6379, ...opts } = options;
+	const {
+		hostname,
+		port = 6379,
+		maxInFlight: _,
+		autoPipeline: __,
+		...opts
+	} = options;
 	return new RedisConnection(hostname, port, opts);
 }
 
-function createLazyExecutor(connection: Connection): CommandExecutor {
+function createLazyExecutor(
+	connection: Connection,
+	options: MuxExecutorOptions,
+): CommandExecutor {
 	let executor: CommandExecutor | null = null;
+	const getExecutor = async () => {
+		if (!executor) {
+			executor = new MuxExecutor(connection, options);
+			await connection.connect();
+		}
+		return executor;
+	};
 	return {
 		get connection() {
 			return connection;
 		},
 		async exec(command, ...args) {
-			if (!executor) {
-				executor = new MuxExecutor(connection);
-				await connection.connect();
-			}
-			return executor.exec(command, ...args);
+			return (await getExecutor()).exec(command, ...args);
+		},
+		async execBatch(commands, read) {
+			return (await getExecutor()).execBatch(commands, read);
 		},
 		close() {
 			if (executor) {
@@ -2392,3 +2828,14 @@ function createLazyExecutor(connection: Connection): CommandExecutor {
 		},
 	};
 }
+
+function formatScore(value: Raw): Raw {
+	if (typeof value !== "number") {
+		return value;
+	}
+	// RESP2 servers reply with infinite scores as `inf` and `-inf`.
+	if (!Number.isFinite(value)) {
+		return value > 0 ? "inf" : "-inf";
+	}
+	return String(value);
+}
@@ -0,0 +1,199 @@
+import { ErrorReplyError } from "./errors.ts";
+import type { Raw, RedisValue } from "./protocol/mod.ts";
+import type { Redis } from "./redis.ts";
+
+export interface ScriptDefinition {
+	/**
+	 * The Lua source of the script.
+	 */
+	source: string;
+	/**
+	 * How many of the arguments are key names. When set, calls with another
+	 * number of keys are rejected before anything is sent.
+	 */
+	numberOfKeys?: number;
+}
+
+export interface RedisScript<T = Raw> extends Readonly<ScriptDefinition> {
+	/**
+	 * The SHA1 digest of `source`, as used by `EVALSHA`.
+	 */
+	sha1(): Promise<string>;
+	/**
+	 * Runs the script with `EVALSHA`, and with `EVAL` if the server does not
+	 * know it yet. `EVAL` also caches the script for the next calls.
+	 *
+	 * In a pipeline or transaction, `EVALSHA` is queued synchronously and
+	 * sent on `flush()`. There is no `EVAL` fallback there, so the promise
+	 * rejects if the script was not loaded with `load()` beforehand.
+	 */
+	exec(redis: Redis, keys?: string[], args?: RedisValue[]): Promise<T>;
+	/**
+	 * Loads the script with `SCRIPT LOAD`.
+	 */
+	load(redis: Redis): Promise<string>;
+}
+
+/**
+ * A script bound to a client by `redis.script()`.
+ */
+export interface RedisBoundScript<T = Raw> {
+	readonly script: RedisScript<T>;
+	exec(keys?: string[], args?: RedisValue[]): Promise<T>;
+	load(): Promise<string>;
+}
+
+class RedisScriptImpl<T> implements RedisScript<T> {
+	readonly source: string;
+	readonly numberOfKeys?: number;
+	private readonly digest: string;
+
+	constructor({ source, numberOfKeys }: ScriptDefinition) {
+		this.source = source;
+		this.numberOfKeys = numberOfKeys;
+		this.digest = sha1Hex(source);
+	}
+
+	sha1(): Promise<string> {
+		return Promise.resolve(this.digest);
+	}
+
+	async exec(
+		redis: Redis,
+		keys: string[] = [],
+		args: RedisValue[] = [],
+	): Promise<T> {
+		if (
+			this.numberOfKeys !== undefined && keys.length !== this.numberOfKeys
+		) {
+			throw new Error(
+				`The script takes ${this.numberOfKeys} keys, got ${keys.length}`,
+			);
+		}
+		try {
+			// EVALSHA is queued before the first `await`, so that a pipeline
+			// flushed synchronously after this call includes it.
+			return await redis.evalsha(this.digest, keys, args) as T;
+		} catch (error) {
+			if (
+				!(error instanceof ErrorReplyError) ||
+				!/^-?NOSCRIPT/.test(error.message)
+			) {
+				throw error;
+			}
+			if ("flush" in redis) {
+				// The pipeline was already flushed, so EVAL would never be sent.
+				throw new Error(
+					"The script must be loaded with load() before use in a pipeline",
+					{ cause: error },
+				);
+			}
+			return await redis.eval(this.source, keys, args) as T;
+		}
+	}
+
+	load(redis: Redis): Promise<string> {
+		return redis.scriptLoad(this.source);
+	}
+}
+
+/**
+ * Defines a Lua script whose SHA1 is computed once. `T` is the type of its
+ * reply.
+ *
+ * ```ts
+ * const incrBy = defineScript<number>({
+ *   source: "return redis.call('INCRBY', KEYS[1], ARGV[1])",
+ *   numberOfKeys: 1,
+ * });
+ * const count = await incrBy.exec(redis, ["counter"], [5]);
+ * ```
+ */
+export function defineScript<T = Raw>(
+	definition: ScriptDefinition,
+): RedisScript<T> {
+	return new RedisScriptImpl<T>(definition);
+}
+
+/**
+ * Binds `script` to `redis`, defining it first if needed.
+ */
+export function bindScript<T>(
+	redis: Redis,
+	script: ScriptDefinition | RedisScript<T>,
+): RedisBoundScript<T> {
+	const defined = script instanceof RedisScriptImpl
+		? script as RedisScript<T>
+		: defineScript<T>(script);
+	return {
+		script: defined,
+		exec: (keys, args) => defined.exec(redis, keys, args),
+		load: () => defined.load(redis),
+	};
+}
+
+// Initial hash values of SHA-1 (FIPS 180-4).
+const SHA1_INIT = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+
+/**
+ * Computes the SHA-1 digest of `source` synchronously. `crypto.subtle` only
+ * offers an async digest, which would delay queuing `EVALSHA`.
+ */
+function sha1Hex(source: string): string {
+	const bytes = new TextEncoder().encode(source);
+	// The message is padded with `0x80`, zeros and its length in bits to a
+	// multiple of 64 bytes.
+	const length = Math.ceil((bytes.length + 9) / 64) * 64;
+	const message = new Uint8Array(length);
+	message.set(bytes);
+	message[bytes.length] = 0x80;
+	const view = new DataView(message.buffer);
+	view.setUint32(length - 8, Math.floor(bytes.length / 0x20000000));
+	view.setUint32(length - 4, bytes.length * 8);
+
+	const h = [...SHA1_INIT];
+	const w = new Uint32Array(80);
+	for (let offset = 0; offset < length; offset += 64) {
+		for (let i = 0; i < 16; i++) {
+			w[i] = view.getUint32(offset + i * 4);
+		}
+		for (let i = 16; i < 80; i++) {
+			w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+		}
+
+		let [a, b, c, d, e] = h;
+		for (let i = 0; i < 80; i++) {
+			let f: number;
+			let k: number;
+			if (i < 20) {
+				f = (b & c) | (~b & d);
+				k = 0x5a827999;
+			} else if (i < 40) {
+				f = b ^ c ^ d;
+				k = 0x6ed9eba1;
+			} else if (i < 60) {
+				f = (b & c) | (b & d) | (c & d);
+				k = 0x8f1bbcdc;
+			} else {
+				f = b ^ c ^ d;
+				k = 0xca62c1d6;
+			}
+			const temp = (rotl(a, 5) + f + e + k + w[i]) >>> 0;
+			e = d;
+			d = c;
+			c = rotl(b, 30);
+			b = a;
+			a = temp;
+		}
+		h[0] = (h[0] + a) >>> 0;
+		h[1] = (h[1] + b) >>> 0;
+		h[2] = (h[2] + c) >>> 0;
+		h[3] = (h[3] + d) >>> 0;
+		h[4] = (h[4] + e) >>> 0;
+	}
+	return h.map((word) => word.toString(16).padStart(8, "0")).join("");
+}
+
+function rotl(value: number, bits: number): number {
+	return ((value << bits) | (value >>> (32 - bits))) >>> 0;
+}
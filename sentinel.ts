@@ -0,0 +1,266 @@
+import { RedisConnection } from "./connection.ts";
+import type { RedisConnectionOptions } from "./connection.ts";
+import { MuxExecutor } from "./executor.ts";
+import type { BulkString, Raw } from "./protocol/mod.ts";
+import type { RedisSubscription } from "./pubsub.ts";
+import { connect, create } from "./redis.ts";
+import type { Redis, RedisConnectOptions } from "./redis.ts";
+import { delay } from "@std/async";
+
+export interface SentinelNode {
+	hostname: string;
+	/**
+	 * @default 26379
+	 */
+	port?: number | string;
+}
+
+export type SentinelRole = "master" | "replica";
+
+export interface SentinelConnectOptions
+	extends Omit<RedisConnectOptions, "hostname" | "port"> {
+	/**
+	 * Sentinels which are asked for the address of the master. Only one of
+	 * them needs to be reachable.
+	 */
+	sentinels: SentinelNode[];
+	/**
+	 * The name of the monitored master, as configured in Sentinel.
+	 */
+	masterName: string;
+	/**
+	 * Whether to connect to the master or to one of its replicas.
+	 * @default "master"
+	 */
+	role?: SentinelRole;
+	sentinelUsername?: string;
+	sentinelPassword?: string;
+}
+
+/**
+ * Connect to the master (or a replica) of a Redis deployment monitored by
+ * Sentinel.
+ *
+ * The address is looked up again every time the client reconnects, and the
+ * client reconnects by itself when Sentinel announces a failover with
+ * `+switch-master`.
+ *
+ * ```ts
+ * import { connectSentinel } from "./mod.ts";
+ *
+ * const redis = await connectSentinel({
+ *   sentinels: [{ hostname: "127.0.0.1", port: 26379 }],
+ *   masterName: "mymaster",
+ * });
+ * ```
+ */
+export async function connectSentinel(
+	options: SentinelConnectOptions,
+): Promise<Redis> {
+	const connection = new SentinelConnection(options);
+	await connection.connect();
+	connection.watch();
+	const executor = new MuxExecutor(connection, {
+		maxInFlight: options.maxInFlight,
+		autoPipeline: options.autoPipeline,
+	});
+	return create(executor);
+}
+
+/**
+ * A connection whose address is resolved through Sentinel on each connect.
+ */
+export class SentinelConnection extends RedisConnection {
+	private readonly sentinels: SentinelNode[];
+	private readonly masterName: string;
+	private readonly role: SentinelRole;
+	private readonly sentinelOptions: RedisConnectionOptions;
+	private subscription: RedisSubscription | null = null;
+	private watching = false;
+
+	constructor(private readonly sentinelConnectOptions: SentinelConnectOptions) {
+		const {
+			sentinels,
+			masterName,
+			role,
+			sentinelUsername,
+			sentinelPassword,
+			maxInFlight: _,
+			autoPipeline: __,
+			...connectionOptions
+		} = sentinelConnectOptions;
+		if (sentinels.length === 0) {
+			throw new Error("At least one sentinel is required");
+		}
+		// The address is resolved on connect.
+		super("", 0, connectionOptions);
+		this.sentinels = [...sentinels];
+		this.masterName = masterName;
+		this.role = role ?? "master";
+		this.sentinelOptions = {
+			tls: connectionOptions.tls,
+			username: sentinelUsername,
+			password: sentinelPassword,
+			// A sentinel which is down is skipped rather than retried.
+			maxRetryCount: 0,
+		};
+	}
+
+	override async connect(): Promise<void> {
+		const { hostname, port } = await this.resolve();
+		this.hostname = hostname;
+		this.port = port;
+		await super.connect();
+	}
+
+	override duplicate(): SentinelConnection {
+		return new SentinelConnection({
+			...this.sentinelConnectOptions,
+			sentinels: this.sentinels,
+		});
+	}
+
+	/**
+	 * Disposes the connection and stops watching for failovers. Reconnects
+	 * only drop the socket, so the watcher keeps running across them.
+	 */
+	override close(): void {
+		this.watching = false;
+		this.subscription?.close();
+		this.subscription = null;
+		super.close();
+	}
+
+	/**
+	 * Asks the sentinels for the address of the master, or of a healthy
+	 * replica.
+	 */
+	async resolve(): Promise<{ hostname: string; port: number }> {
+		let lastError: unknown;
+		for (const [index, sentinel] of this.sentinels.entries()) {
+			let client: Redis | undefined;
+			try {
+				client = await this.connectSentinel(sentinel);
+				const address = this.role === "master"
+					? await this.getMasterAddress(client)
+					: await this.getReplicaAddress(client);
+				// Ask the sentinel which answered first next time.
+				this.sentinels.splice(index, 1);
+				this.sentinels.unshift(sentinel);
+				return address;
+			} catch (error) {
+				lastError = error;
+			} finally {
+				client?.close();
+			}
+		}
+		throw new Error(
+			`No sentinel could resolve the ${this.role} of "${this.masterName}"`,
+			{ cause: lastError },
+		);
+	}
+
+	/**
+	 * Subscribes to `+switch-master` on a sentinel and reconnects when the
+	 * master of this connection is switched.
+	 */
+	watch(): void {
+		if (this.watching) return;
+		this.watching = true;
+		this.watchLoop();
+	}
+
+	protected override async verify(): Promise<void> {
+		// A sentinel may still report a stale address during a failover.
+		const [role] = await this.sendCommand("ROLE") as [BulkString, ...Raw[]];
+		const expected = this.role === "master" ? "master" : "slave";
+		if (role !== expected) {
+			throw new Error(
+				`Expected ${this.hostname}:${this.port} to be a ${expected}, got ${role}`,
+			);
+		}
+	}
+
+	private async watchLoop(): Promise<void> {
+		let attempts = 0;
+		while (this.watching) {
+			for (const sentinel of this.sentinels) {
+				if (!this.watching) return;
+				let client: Redis | undefined;
+				try {
+					client = await this.connectSentinel(sentinel);
+					this.subscription = await client.subscribe("+switch-master");
+					attempts = 0;
+					for await (const { message } of this.subscription.receive()) {
+						this.onSwitchMaster(message);
+					}
+				} catch {
+					// Try the next sentinel.
+				} finally {
+					this.subscription = null;
+					client?.close();
+				}
+			}
+			if (this.watching) {
+				await delay(Math.min(5000, 500 * 2 ** attempts++));
+			}
+		}
+	}
+
+	private onSwitchMaster(message: string): void {
+		// <master name> <old ip> <old port> <new ip> <new port>
+		const [masterName, , , hostname, port] = message.split(" ");
+		if (masterName !== this.masterName || this.isClosed) {
+			return;
+		}
+		if (
+			this.role === "master" &&
+			hostname === this.hostname &&
+			String(port) === String(this.port)
+		) {
+			return;
+		}
+		// Drop the socket so that the executor reconnects, which resolves the
+		// new address through the sentinels.
+		this.disconnect();
+	}
+
+	private connectSentinel({ hostname, port = 26379 }: SentinelNode) {
+		return connect({ hostname, port, ...this.sentinelOptions });
+	}
+
+	private async getMasterAddress(client: Redis) {
+		const reply = await client.sendCommand(
+			"SENTINEL",
+			"GET-MASTER-ADDR-BY-NAME",
+			this.masterName,
+		);
+		const address = reply.value() as [BulkString, BulkString] | null;
+		if (!address) {
+			throw new Error(`Unknown master "${this.masterName}"`);
+		}
+		return { hostname: address[0], port: parseInt(address[1], 10) };
+	}
+
+	private async getReplicaAddress(client: Redis) {
+		const reply = await client.sendCommand(
+			"SENTINEL",
+			"REPLICAS",
+			this.masterName,
+		);
+		const replicas = (reply.value() as BulkString[][])
+			.map((fields) => {
+				const info: Record<string, string> = {};
+				for (let i = 0; i < fields.length; i += 2) {
+					info[fields[i]] = fields[i + 1];
+				}
+				return info;
+			})
+			.filter(({ flags }) => !/s_down|o_down|disconnected/.test(flags ?? ""));
+		if (replicas.length === 0) {
+			throw new Error(`No healthy replica of "${this.masterName}"`);
+		}
+		const { ip, port } = replicas[Math.floor(Math.random() * replicas.length)];
+		return { hostname: ip, port: parseInt(port, 10) };
+	}
+}
@@ -1,4 +1,9 @@
-import type { ConditionalArray, Raw, RedisValue } from "./protocol/mod.ts";
+import type {
+	ConditionalArray,
+	Raw,
+	RedisMap,
+	RedisValue,
+} from "./protocol/mod.ts";
 
 export interface XId {
 	unixMs: number;
@@ -44,10 +49,14 @@ export type XReadReplyRaw = XReadStreamRaw[];
  * seqNo of zero.  (Especially useful is to pass 0.)
  */
 export type XIdInput = XId | [number, number] | number;
+/** An XADD ID with an explicit time and a generated sequence number. */
+export type XIdAutoSeq = `${number}-*`;
 /**
  * ID input type for XADD, which is allowed to include the
- * "*" operator. */
-export type XIdAdd = XIdInput | "*";
+ * "*" operator.  The sequence number alone can also be
+ * generated by passing e.g. "1526985054069-*" or
+ * [1526985054069, "*"].  Requires Redis 7. */
+export type XIdAdd = XIdInput | "*" | XIdAutoSeq | [number, "*"];
 /**
  * ID input type for XGROUPREAD, which is allowed to include
  * the ">" operator.  We include an array format for ease of
@@ -55,10 +64,15 @@ export type XIdAdd = XIdInput | "*";
  * is seqNo. */
 export type XIdGroupRead = XIdInput | ">";
 
+/**
+ * An exclusive bound for XRANGE, XREVRANGE and XPENDING, e.g.
+ * "(1526985054069-0".  Requires Redis 6.2.
+ */
+export type XIdExclusive = `(${string}`;
 /** Allows special maximum ID for XRANGE and XREVRANGE */
-export type XIdPos = XIdInput | "+";
+export type XIdPos = XIdInput | "+" | XIdExclusive;
 /** Allows special minimum ID for XRANGE and XREVRANGE */
-export type XIdNeg = XIdInput | "-";
+export type XIdNeg = XIdInput | "-" | XIdExclusive;
 /** Allow special $ ID for XGROUP CREATE */
 export type XIdCreateGroup = XIdInput | "$";
 
@@ -83,6 +97,60 @@ export interface XMaxlen {
 	elements: number;
 }
 
+/**
+ * How XADD and XTRIM trim the stream. Only one of `maxlen`
+ * and `minid` may be set.
+ */
+export interface XTrimOpts {
+	/** Evicts the oldest entries while there are more than `maxlen`. */
+	maxlen?: number;
+	/**
+	 * Evicts the entries whose XId is lower than `minid`.
+	 * Requires Redis 6.2.
+	 */
+	minid?: XIdInput;
+	/**
+	 * With `true`, the threshold is passed with `~` so that Redis
+	 * only evicts whole macro nodes, which is much more efficient.
+	 * With `false`, it is passed with `=`.
+	 */
+	approx?: boolean;
+	/**
+	 * The maximum number of entries evicted by an approximate
+	 * trim.  Requires Redis 6.2.
+	 */
+	limit?: number;
+}
+
+export interface XAddOpts extends XTrimOpts {
+	/**
+	 * Does not create the stream if it does not exist, in which
+	 * case nothing is added and XADD replies nil.  Requires
+	 * Redis 6.2.
+	 */
+	nomkstream?: boolean;
+}
+
+export type XAutoClaimReply = XAutoClaimMessages | XAutoClaimJustXId;
+/**
+ * @param nextId The cursor to pass as `start` to the next call, `0-0`
+ *  once the whole pending entries list was scanned.
+ * @param deletedIds The pending entries which no longer exist in the
+ *  stream, and were removed from the pending entries list.
+ */
+export interface XAutoClaimMessages {
+	kind: "messages";
+	nextId: XId;
+	messages: XMessage[];
+	deletedIds: XId[];
+}
+export interface XAutoClaimJustXId {
+	kind: "justxid";
+	nextId: XId;
+	xids: XId[];
+	deletedIds: XId[];
+}
+
 export type XClaimReply = XClaimMessages | XClaimJustXId;
 export interface XClaimMessages {
 	kind: "messages";
@@ -133,9 +201,13 @@ export interface XPendingCount {
  * args must be specified if _any_ are specified.
  */
 export interface StartEndCount {
-	start: number | "-";
-	end: number | "+";
+	start: number | XId | "-" | XIdExclusive;
+	end: number | XId | "+" | XIdExclusive;
 	count: number;
+	/**
+	 * Only includes the messages idle for at least this many milliseconds.
+	 */
+	idle?: number;
 }
 
 export interface XInfoStreamReply {
@@ -209,6 +281,11 @@ export interface XClaimOpts {
 	justXId?: boolean;
 }
 
+export interface XAutoClaimOpts {
+	count?: number;
+	justid?: boolean;
+}
+
 export function parseXMessage(raw: XReadIdData): XMessage {
 	const fieldValues: Record<string, string> = {};
 	let f: string | undefined = undefined;
@@ -226,7 +303,14 @@ export function parseXMessage(raw: XReadIdData): XMessage {
 	return { xid: parseXId(raw[0]), fieldValues: fieldValues };
 }
 
-export function convertMap(raw: ConditionalArray): Map<string, Raw> {
+export function convertMap(
+	raw: ConditionalArray | RedisMap,
+): Map<string, Raw> {
+	if (raw instanceof Map) {
+		// RESP3 servers reply with a real map.
+		return raw as Map<string, Raw>;
+	}
+
 	const fieldValues: Map<string, Raw> = new Map();
 	let f: string | undefined = undefined;
 
@@ -243,9 +327,13 @@ export function convertMap(raw: ConditionalArray): Map<string, Raw> {
 	return fieldValues;
 }
 
-export function parseXReadReply(raw: XReadReplyRaw): XReadReply {
+export function parseXReadReply(
+	raw: XReadReplyRaw | Map<string, XReadIdData[]>,
+): XReadReply {
 	const out: XReadStream[] = [];
-	for (const [key, idData] of raw ?? []) {
+	// RESP3 servers reply with a map of key -> messages.
+	const streams = raw instanceof Map ? raw.entries() : raw ?? [];
+	for (const [key, idData] of streams) {
 		const messages = [];
 		for (const rawMsg of idData) {
 			messages.push(parseXMessage(rawMsg));
@@ -301,7 +389,7 @@ export function parseXGroupDetail(rawGroups: ConditionalArray): XGroupDetail[] {
 	const out = [];
 
 	for (const rawGroup of rawGroups) {
-		if (isCondArray(rawGroup)) {
+		if (rawGroup instanceof Map || isCondArray(rawGroup)) {
 			const data = convertMap(rawGroup);
 
 			// array of arrays
@@ -322,7 +410,9 @@ export function parseXGroupDetail(rawGroups: ConditionalArray): XGroupDetail[] {
 	return out;
 }
 
-export function parseXConsumerDetail(nestedRaws: Raw[][]): XConsumerDetail[] {
+export function parseXConsumerDetail(
+	nestedRaws: (Raw[] | RedisMap)[],
+): XConsumerDetail[] {
 	const out: XConsumerDetail[] = [];
 
 	for (const raws of nestedRaws) {
@@ -356,6 +446,7 @@ export function xidstr(
 ): string {
 	if (typeof xid === "string") return xid;
 	if (typeof xid === "number") return `${xid}-0`;
+	// Also covers [ms, "*"], for which only the sequence number is generated.
 	if (xid instanceof Array && xid.length > 1) return `${xid[0]}-${xid[1]}`;
 	if (isXId(xid)) return `${xid.unixMs}-${xid.seqNo}`;
 	throw "fail";
@@ -0,0 +1,129 @@
+import { assertEquals } from "@std/assert";
+import { createCachedClient } from "../mod.ts";
+import {
+  createTestRedis,
+  randomTestKey,
+  TEST_REDIS_CONFIG,
+  waitFor,
+} from "./test_helper.ts";
+
+Deno.test("Cache - Repeated reads are served locally", async () => {
+  const redis = await createCachedClient({ ...TEST_REDIS_CONFIG, cache: {} });
+  const key = randomTestKey("cache");
+
+  try {
+    await redis.set(key, "value");
+    assertEquals(await redis.get(key), "value");
+    assertEquals(await redis.get(key), "value");
+    assertEquals(redis.cache.stats.misses, 1);
+    assertEquals(redis.cache.stats.hits, 1);
+
+    // A write through the same client is visible right away
+    await redis.set(key, "updated");
+    assertEquals(await redis.get(key), "updated");
+  } finally {
+    await redis.del(key);
+    redis.close();
+  }
+});
+
+Deno.test("Cache - Cached replies are copied", async () => {
+  const redis = await createCachedClient({ ...TEST_REDIS_CONFIG, cache: {} });
+  const key = randomTestKey("cache");
+
+  try {
+    await redis.hset(key, { field: "value" });
+    // Modifying a reply does not modify the cached one
+    (await redis.hgetall(key)).push("changed");
+    (await redis.hgetall(key)).length = 0;
+    assertEquals(await redis.hgetall(key), ["field", "value"]);
+    assertEquals(redis.cache.stats.hits, 2);
+  } finally {
+    await redis.del(key);
+    redis.close();
+  }
+});
+
+Deno.test("Cache - Invalidated by other clients", async () => {
+  const redis = await createCachedClient({ ...TEST_REDIS_CONFIG, cache: {} });
+  const other = await createTestRedis();
+  const key = randomTestKey("cache");
+
+  try {
+    await other.set(key, "before");
+    assertEquals(await redis.get(key), "before");
+
+    await other.set(key, "after");
+    await waitFor(() => redis.cache.stats.invalidations > 0);
+    assertEquals(await redis.get(key), "after");
+  } finally {
+    await other.del(key);
+    other.close();
+    redis.close();
+  }
+});
+
+Deno.test("Cache - BCAST mode only caches tracked prefixes", async () => {
+  const prefix = randomTestKey("cache") + ":";
+  const redis = await createCachedClient({
+    ...TEST_REDIS_CONFIG,
+    cache: { mode: "bcast", prefixes: [prefix] },
+  });
+  const tracked = `${prefix}tracked`;
+  const untracked = randomTestKey("untracked");
+
+  try {
+    await redis.get(tracked);
+    await redis.get(tracked);
+    await redis.get(untracked);
+    await redis.get(untracked);
+    assertEquals(redis.cache.stats.hits, 1);
+    assertEquals(redis.cache.stats.size, 1);
+  } finally {
+    redis.close();
+  }
+});
+
+Deno.test("Cache - OPTIN mode", async () => {
+  const redis = await createCachedClient({
+    ...TEST_REDIS_CONFIG,
+    cache: { mode: "optin" },
+  });
+  const other = await createTestRedis();
+  const key = randomTestKey("cache");
+
+  try {
+    await other.set(key, "before");
+    assertEquals(await redis.get(key), "before");
+    await other.set(key, "after");
+    await waitFor(() => redis.cache.stats.invalidations > 0);
+    assertEquals(await redis.get(key), "after");
+  } finally {
+    await other.del(key);
+    other.close();
+    redis.close();
+  }
+});
+
+Deno.test("Cache - Max entries and TTL", async () => {
+  const redis = await createCachedClient({
+    ...TEST_REDIS_CONFIG,
+    cache: { maxEntries: 2, ttl: 50 },
+  });
+  const keys = [1, 2, 3].map((i) => randomTestKey(`cache${i}`));
+
+  try {
+    for (const key of keys) {
+      await redis.get(key);
+    }
+    assertEquals(redis.cache.stats.size, 2);
+    assertEquals(redis.cache.stats.evictions, 1);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await redis.get(keys[2]);
+    assertEquals(redis.cache.stats.hits, 0);
+    assertEquals(redis.cache.stats.evictions, 2);
+  } finally {
+    redis.close();
+  }
+});
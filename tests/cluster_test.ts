@@ -0,0 +1,162 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { calculateSlot, connectCluster, create } from "../mod.ts";
+import type { CommandExecutor, Connection, RedisReply } from "../mod.ts";
+import { ClusterExecutor, getCommandKey } from "../cluster.ts";
+import { randomTestKey, TEST_REDIS_CLUSTER_NODES } from "./test_helper.ts";
+
+Deno.test("Cluster - Hash slot calculation", () => {
+  assertEquals(calculateSlot("123456789"), 12739);
+  assertEquals(calculateSlot("foo"), 12182);
+  assertEquals(
+    calculateSlot(new TextEncoder().encode("foo")),
+    calculateSlot("foo"),
+  );
+});
+
+Deno.test("Cluster - Hashtags", () => {
+  assertEquals(
+    calculateSlot("{user1000}.following"),
+    calculateSlot("user1000"),
+  );
+  assertEquals(
+    calculateSlot("{user1000}.following"),
+    calculateSlot("{user1000}.followers"),
+  );
+  // Only the first {...} is used
+  assertEquals(calculateSlot("foo{bar}{zap}"), calculateSlot("bar"));
+  // An empty hashtag hashes the whole key
+  assertEquals(calculateSlot("foo{}{bar}") === calculateSlot("bar"), false);
+});
+
+Deno.test("Cluster - Command keys", () => {
+  assertEquals(getCommandKey("GET", ["key"]), "key");
+  assertEquals(getCommandKey("PING", []), undefined);
+  assertEquals(getCommandKey("EVAL", ["return 1", 1, "key"]), "key");
+  assertEquals(getCommandKey("EVAL", ["return 1", 0]), undefined);
+  assertEquals(getCommandKey("OBJECT", ["ENCODING", "key"]), "key");
+  assertEquals(
+    getCommandKey("XREADGROUP", ["GROUP", "g", "c", "STREAMS", "key", ">"]),
+    "key",
+  );
+});
+
+// Nodes which reply to every command with their address, and serve all the
+// slots from `owner`.
+class StubClusterExecutor extends ClusterExecutor {
+  owner = "127.0.0.1:7000";
+  down = new Set<string>();
+
+  protected override connectNode(address: string): Promise<CommandExecutor> {
+    if (this.down.has(address)) {
+      return Promise.reject(new Deno.errors.ConnectionRefused(address));
+    }
+    const reply = (value: unknown) => ({ value: () => value }) as RedisReply;
+    return Promise.resolve({
+      get connection(): Connection {
+        throw new Error("Not connected");
+      },
+      exec: (command: string) => {
+        if (this.down.has(address)) {
+          return Promise.reject(new Deno.errors.ConnectionReset(address));
+        }
+        if (command === "CLUSTER") {
+          const [hostname, port] = this.owner.split(":");
+          return Promise.resolve(reply([[0, 16383, [hostname, Number(port)]]]));
+        }
+        return Promise.resolve(reply(address));
+      },
+      execBatch: () => Promise.reject(new Error("Not implemented")),
+      close: () => {},
+    });
+  }
+}
+
+Deno.test("Cluster - Slots are reloaded when a node fails", async () => {
+  const executor = new StubClusterExecutor({
+    startupNodes: [
+      { hostname: "127.0.0.1", port: 7000 },
+      { hostname: "127.0.0.1", port: 7001 },
+    ],
+  });
+  await executor.init();
+  const cluster = create(executor);
+
+  try {
+    assertEquals(await cluster.get("key"), "127.0.0.1:7000");
+
+    // The failed node does not reply with MOVED, so the slot map is reloaded
+    // and the command is retried on the promoted node
+    executor.down.add("127.0.0.1:7000");
+    executor.owner = "127.0.0.1:7001";
+    assertEquals(await cluster.get("key"), "127.0.0.1:7001");
+    assertEquals(await cluster.get("other"), "127.0.0.1:7001");
+  } finally {
+    cluster.close();
+  }
+});
+
+Deno.test({
+  name: "Cluster - Commands are routed across nodes",
+  ignore: TEST_REDIS_CLUSTER_NODES.length === 0,
+  async fn() {
+    const cluster = await connectCluster({
+      startupNodes: TEST_REDIS_CLUSTER_NODES,
+    });
+    const keys = Array.from({ length: 20 }, (_, i) => randomTestKey(`c${i}`));
+
+    try {
+      for (const key of keys) {
+        assertEquals(await cluster.set(key, key), "OK");
+      }
+      const values = await Promise.all(keys.map((key) => cluster.get(key)));
+      assertEquals(values, keys);
+
+      // Keys sharing a hashtag can be used together
+      const tag = randomTestKey("{tag}");
+      await cluster.mset({ [`${tag}:a`]: "1", [`${tag}:b`]: "2" });
+      assertEquals(await cluster.mget(`${tag}:a`, `${tag}:b`), ["1", "2"]);
+      await cluster.del(`${tag}:a`, `${tag}:b`);
+    } finally {
+      for (const key of keys) {
+        await cluster.del(key);
+      }
+      cluster.close();
+    }
+  },
+});
+
+Deno.test({
+  name: "Cluster - Pipelines are routed by slot",
+  ignore: TEST_REDIS_CLUSTER_NODES.length === 0,
+  async fn() {
+    const cluster = await connectCluster({
+      startupNodes: TEST_REDIS_CLUSTER_NODES,
+    });
+    const tags = Array.from({ length: 10 }, (_, i) => randomTestKey(`{p${i}}`));
+
+    try {
+      for (const tag of tags) {
+        const pl = cluster.pipeline();
+        pl.set(`${tag}:a`, "1");
+        pl.set(`${tag}:b`, "2");
+        pl.mget(`${tag}:a`, `${tag}:b`);
+        assertEquals(await pl.flush(), ["OK", "OK", ["1", "2"]]);
+      }
+
+      // Keys served by different slots cannot share a pipeline
+      const pl = cluster.pipeline();
+      pl.get(`${tags[0]}:a`);
+      pl.get(`${tags[1]}:a`);
+      await assertRejects(
+        () => pl.flush(),
+        Error,
+        "must hash to the same slot",
+      );
+    } finally {
+      for (const tag of tags) {
+        await cluster.del(`${tag}:a`, `${tag}:b`);
+      }
+      cluster.close();
+    }
+  },
+});
@@ -79,6 +79,14 @@ Deno.test("Commands - Hash operations", async () => {
       "field3",
       "value3",
     ]);
+    assertEquals(
+      await redis.hgetallMap(key),
+      new Map([
+        ["field1", "value1"],
+        ["field2", "value2"],
+        ["field3", "value3"],
+      ]),
+    );
 
     // HKEYS/HVALS
     const keys = await redis.hkeys(key);
@@ -244,3 +252,58 @@ Deno.test("Commands - Key operations", async () => {
     redis.close();
   }
 });
+
+Deno.test("Commands - Function operations", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("function");
+  const library = "#!lua name=testlib\n" +
+    "redis.register_function('testlib_args', function(keys, args) return args end)\n" +
+    "redis.register_function{function_name='testlib_args_ro', " +
+    "callback=function(keys, args) return args end, flags={'no-writes'}}";
+
+  try {
+    assertEquals(
+      await redis.functionLoad(library, { replace: true }),
+      "testlib",
+    );
+    assertEquals(await redis.fcall("testlib_args", [key], ["a", "b"]), [
+      "a",
+      "b",
+    ]);
+    assertEquals(await redis.fcallRo("testlib_args_ro", [key], ["c"]), ["c"]);
+
+    const [info] = await redis.functionList({
+      libraryName: "testlib",
+      withCode: true,
+    });
+    assertEquals(info.libraryName, "testlib");
+    assertEquals(info.engine, "LUA");
+    assertEquals(info.libraryCode, library);
+    assertEquals(
+      info.functions.map(({ name, flags }) => ({ name, flags })).sort((a, b) =>
+        a.name.localeCompare(b.name)
+      ),
+      [
+        { name: "testlib_args", flags: [] },
+        { name: "testlib_args_ro", flags: ["no-writes"] },
+      ],
+    );
+
+    const stats = await redis.functionStats();
+    assertEquals(stats.runningScript, null);
+    assertEquals(stats.engines.LUA.librariesCount >= 1, true);
+
+    // DUMP and RESTORE
+    const dump = await redis.functionDump();
+    assertEquals(await redis.functionDelete("testlib"), "OK");
+    assertEquals(await redis.functionList({ libraryName: "testlib" }), []);
+    assertEquals(await redis.functionRestore(dump, "APPEND"), "OK");
+    assertEquals(
+      (await redis.functionList({ libraryName: "testlib" })).length,
+      1,
+    );
+  } finally {
+    await redis.functionDelete("testlib").catch(() => {});
+    redis.close();
+  }
+});
@@ -1,6 +1,13 @@
-import { assertEquals, assertRejects } from "@std/assert";
-import { connect, createLazyClient, parseURL } from "../mod.ts";
-import { AuthenticationError, ConnectionClosedError } from "../errors.ts";
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import { connect, create, createLazyClient, parseURL } from "../mod.ts";
+import type { AutoPipelineOptions, Connection } from "../mod.ts";
+import {
+  AuthenticationError,
+  ConnectionClosedError,
+  ErrorReplyError,
+} from "../errors.ts";
+import { MuxExecutor } from "../executor.ts";
+import { BufferedReader } from "../protocol/mod.ts";
 import {
   cleanupTestKeys,
   createTestRedis,
@@ -114,3 +121,266 @@ Deno.test("Connection - Close and reconnect behavior", async () => {
     ConnectionClosedError,
   );
 });
+
+Deno.test("Connection - RESP3 protocol", async () => {
+  const redis = await connect({ ...TEST_REDIS_CONFIG, protocol: 3 });
+  const key = "test:resp3:hash";
+
+  try {
+    await redis.hset(key, { field1: "value1", field2: "value2" });
+
+    // Raw replies are decoded as RESP3 maps
+    const reply = await redis.sendCommand("HGETALL", key);
+    assertEquals(
+      reply.value(),
+      new Map([["field1", "value1"], ["field2", "value2"]]),
+    );
+
+    // Typed commands keep their RESP2 shape
+    const all = await redis.hgetall(key);
+    assertEquals(all, ["field1", "value1", "field2", "value2"]);
+    assertEquals(
+      await redis.hgetallMap(key),
+      new Map([["field1", "value1"], ["field2", "value2"]]),
+    );
+
+    const double = await redis.sendCommand(
+      "ZINCRBY",
+      "test:resp3:zset",
+      1.5,
+      "m",
+    );
+    assertEquals(double.value(), 1.5);
+    assertEquals(await redis.zincrby("test:resp3:zset", 1, "n"), "1");
+    assertEquals(await redis.zscore("test:resp3:zset", "m"), "1.5");
+    assertEquals(
+      await redis.zrange("test:resp3:zset", 0, -1, { withScore: true }),
+      ["n", "1", "m", "1.5"],
+    );
+  } finally {
+    await redis.del(key, "test:resp3:zset");
+    redis.close();
+  }
+});
+
+Deno.test("Connection - Nil replies", async () => {
+  for (const protocol of [2, 3] as const) {
+    const redis = await connect({ ...TEST_REDIS_CONFIG, protocol });
+    const key = `test:nil:${protocol}`;
+
+    try {
+      assertEquals(await redis.set(key, "1", { mode: "NX" }), "OK");
+      assertEquals(await redis.set(key, "2", { mode: "NX" }), null);
+      assertEquals(await redis.get(key), "1");
+      assertEquals(await redis.get(`${key}:missing`), null);
+      assertEquals(await redis.dump(`${key}:missing`), null);
+      assertEquals(await redis.hget(`${key}:missing`, "field"), null);
+      assertEquals(await redis.zscore(`${key}:missing`, "member"), null);
+    } finally {
+      await redis.del(key);
+      redis.close();
+    }
+  }
+});
+
+Deno.test("Connection - RESP3 push frames", async () => {
+  const redis = await connect({ ...TEST_REDIS_CONFIG, protocol: 3 });
+  const key = "test:resp3:tracked";
+
+  try {
+    // Without REDIRECT, invalidation messages are pushed on this connection
+    await redis.sendCommand("CLIENT", "TRACKING", "ON");
+    await redis.set(key, "1");
+    assertEquals(await redis.get(key), "1");
+
+    const results = await Promise.all([
+      redis.set(key, "2"),
+      redis.get(key),
+      redis.set(key, "3"),
+      redis.get(key),
+    ]);
+    assertEquals(results, ["OK", "2", "OK", "3"]);
+  } finally {
+    await redis.del(key);
+    redis.close();
+  }
+});
+
+Deno.test("Connection - Concurrent in-flight commands", async () => {
+  const redis = await connect({ ...TEST_REDIS_CONFIG, maxInFlight: 16 });
+
+  try {
+    const count = 500;
+    const writes = [];
+    for (let i = 0; i < count; i++) {
+      writes.push(redis.set(`test:inflight:${i}`, `value${i}`));
+    }
+    assertEquals((await Promise.all(writes)).every((r) => r === "OK"), true);
+
+    // Replies are matched to their callers in order, errors included
+    const results = await Promise.all([
+      redis.get("test:inflight:1"),
+      redis.sendCommand("SET", "incomplete").catch((error) => error),
+      redis.get("test:inflight:2"),
+    ]);
+    assertEquals(results[0], "value1");
+    assertInstanceOf(results[1], ErrorReplyError);
+    assertEquals(results[2], "value2");
+  } finally {
+    await cleanupTestKeys(redis);
+    redis.close();
+  }
+});
+
+Deno.test("Connection - Errors nested in a reply", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    await redis.set("test:nested:a", "A");
+    await redis.multi();
+    await redis.sendCommand("INCR", "test:nested:a");
+    await redis.sendCommand("SET", "test:nested:b", "B");
+    // The EXEC reply holds the INCR error followed by the SET reply
+    await assertRejects(() => redis.exec(), ErrorReplyError);
+
+    // The rest of the reply was read, so the next replies are not shifted
+    assertEquals(await redis.get("test:nested:a"), "A");
+    assertEquals(await redis.get("test:nested:b"), "B");
+  } finally {
+    await cleanupTestKeys(redis);
+    redis.close();
+  }
+});
+
+Deno.test("Connection - Auto pipelining", async () => {
+  for (const autoPipeline of [true, { windowMicros: 500 }]) {
+    const redis = await connect({
+      ...TEST_REDIS_CONFIG,
+      maxInFlight: 16,
+      autoPipeline,
+    });
+
+    try {
+      const count = 100;
+      const writes = [];
+      for (let i = 0; i < count; i++) {
+        writes.push(redis.set(`test:autopipeline:${i}`, `value${i}`));
+      }
+      assertEquals((await Promise.all(writes)).every((r) => r === "OK"), true);
+
+      const results = await Promise.all([
+        redis.get("test:autopipeline:1"),
+        redis.sendCommand("SET", "incomplete").catch((error) => error),
+        redis.get("test:autopipeline:99"),
+      ]);
+      assertEquals(results[0], "value1");
+      assertInstanceOf(results[1], ErrorReplyError);
+      assertEquals(results[2], "value99");
+
+      // Commands issued one at a time are still sent
+      assertEquals(await redis.get("test:autopipeline:0"), "value0");
+    } finally {
+      await cleanupTestKeys(redis);
+      redis.close();
+    }
+  }
+});
+
+// A connection which replies OK to every command and records each write to
+// the socket.
+class WriteCountingConnection implements Connection {
+  writes: string[] = [];
+  closer = { close: () => {} };
+  reader: ReadableStream<Uint8Array>;
+  bufferedReader: BufferedReader;
+  writer: WritableStream<Uint8Array>;
+  maxRetryCount = 0;
+  isClosed = false;
+  isConnected = true;
+  isRetriable = false;
+
+  constructor() {
+    let replies!: ReadableStreamDefaultController<Uint8Array>;
+    this.reader = new ReadableStream({ start: (c) => void (replies = c) });
+    this.bufferedReader = new BufferedReader(this.reader);
+    this.writer = new WritableStream({
+      write: (chunk) => {
+        const request = new TextDecoder().decode(chunk);
+        this.writes.push(request);
+        // Every command is an array header followed by its arguments
+        const count = request.split("\r\n").filter((line, i, lines) =>
+          line.startsWith("*") && !lines[i - 1]?.startsWith("$")
+        ).length;
+        replies.enqueue(new TextEncoder().encode("+OK\r\n".repeat(count)));
+      },
+    });
+  }
+
+  close(): void {
+    this.isClosed = true;
+  }
+  connect(): Promise<void> {
+    return Promise.resolve();
+  }
+  reconnect(): Promise<void> {
+    return Promise.resolve();
+  }
+  duplicate(): Connection {
+    return new WriteCountingConnection();
+  }
+}
+
+function createWriteCountingRedis(
+  autoPipeline: boolean | AutoPipelineOptions,
+) {
+  const connection = new WriteCountingConnection();
+  const redis = create(new MuxExecutor(connection, { autoPipeline }));
+  return { connection, redis };
+}
+
+Deno.test("Connection - Auto pipelining coalesces writes", async () => {
+  {
+    const { connection, redis } = createWriteCountingRedis(false);
+    const replies = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => redis.set(`key${i}`, "value")),
+    );
+    assertEquals(replies, Array(10).fill("OK"));
+    assertEquals(connection.writes.length, 10);
+  }
+
+  {
+    const { connection, redis } = createWriteCountingRedis(true);
+    const replies = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => redis.set(`key${i}`, "value")),
+    );
+    assertEquals(replies, Array(10).fill("OK"));
+    assertEquals(connection.writes.length, 1);
+    assertEquals(connection.writes[0].split("SET").length - 1, 10);
+
+    // Commands issued in different ticks are written separately
+    const first = redis.set("key0", "value");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const second = redis.set("key1", "value");
+    assertEquals(await Promise.all([first, second]), ["OK", "OK"]);
+    assertEquals(connection.writes.length, 3);
+  }
+});
+
+Deno.test("Connection - Auto pipelining window", async () => {
+  const { connection, redis } = createWriteCountingRedis({
+    windowMicros: 50_000,
+  });
+
+  // Commands issued in different ticks within the window share a write
+  const first = redis.set("key0", "value");
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  const second = redis.set("key1", "value");
+  assertEquals(connection.writes.length, 0);
+  assertEquals(await Promise.all([first, second]), ["OK", "OK"]);
+  assertEquals(connection.writes.length, 1);
+  assertEquals(connection.writes[0].split("SET").length - 1, 2);
+
+  // The window starts again with the next command
+  assertEquals(await redis.set("key2", "value"), "OK");
+  assertEquals(connection.writes.length, 2);
+});
@@ -0,0 +1,199 @@
+import { assertEquals } from "@std/assert";
+import { createStreamReclaimer } from "../mod.ts";
+import type { XMessage } from "../mod.ts";
+import { createTestRedis, randomTestKey, waitFor } from "./test_helper.ts";
+
+Deno.test("Consumer - Handle and acknowledge messages", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("consumer");
+  const controller = new AbortController();
+
+  try {
+    const handled: string[] = [];
+    const errors: unknown[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const consumer = await redis.createStreamConsumer({
+      key,
+      group: "workers",
+      consumer: "worker-1",
+      blockMs: 100,
+      concurrency: 2,
+      handler: async ({ fieldValues }: XMessage) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        running--;
+        if (fieldValues.task === "fail") throw new Error("Failed");
+        handled.push(fieldValues.task);
+      },
+      onError: (error) => errors.push(error),
+      signal: controller.signal,
+    });
+
+    // The group was created, and the handlers are called for new messages
+    for (const task of ["a", "b", "fail", "c"]) {
+      await redis.xadd(key, "*", { task });
+    }
+    await waitFor(() => handled.length === 3 && errors.length === 1, 3000, 20);
+    assertEquals(handled.sort(), ["a", "b", "c"]);
+    assertEquals(maxRunning, 2);
+
+    // The failed message is left pending
+    await waitFor(
+      async () => (await redis.xpending(key, "workers")).count === 1,
+      3000,
+      20,
+    );
+
+    // Creating another consumer keeps the existing group
+    const other = await redis.createStreamConsumer({
+      key,
+      group: "workers",
+      consumer: "worker-2",
+      blockMs: 100,
+      handler: () => {},
+    });
+    await other.stop();
+    assertEquals(other.isClosed, true);
+
+    controller.abort();
+    await consumer.done;
+    assertEquals(consumer.isClosed, true);
+    assertEquals(redis.isClosed, false);
+  } finally {
+    await redis.del(key);
+    redis.close();
+  }
+});
+
+Deno.test("Consumer - Handler errors are logged by default", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("consumer");
+  const logged: unknown[][] = [];
+  const consoleError = console.error;
+  console.error = (...data: unknown[]) => logged.push(data);
+
+  try {
+    const consumer = await redis.createStreamConsumer({
+      key,
+      group: "workers",
+      consumer: "worker-1",
+      blockMs: 100,
+      handler: () => {
+        throw new Error("Failed");
+      },
+    });
+    const id = await redis.xadd(key, "*", { task: "fail" });
+    await waitFor(() => logged.length === 1, 3000, 20);
+    assertEquals(
+      logged[0][0],
+      `Failed to handle message ${id.unixMs}-${id.seqNo} of stream ${key}`,
+    );
+    await consumer.stop();
+  } finally {
+    console.error = consoleError;
+    await redis.del(key);
+    redis.close();
+  }
+});
+
+Deno.test("Consumer - XAUTOCLAIM", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("autoclaim");
+
+  try {
+    await redis.xgroupCreate(key, "workers", "$", true);
+    const ids = [];
+    for (let i = 0; i < 3; i++) {
+      ids.push(await redis.xadd(key, "*", { i }));
+    }
+    await redis.xreadgroup([{ key, xid: ">" }], {
+      group: "workers",
+      consumer: "crashed",
+    });
+    await redis.xdel(key, ids[1]);
+
+    const first = await redis.xautoclaim(key, "workers", "alive", 0, 0, {
+      count: 2,
+    });
+    assertEquals(first.kind, "messages");
+    if (first.kind !== "messages") return;
+    assertEquals(first.messages.map((m) => m.xid), [ids[0]]);
+    assertEquals(first.messages[0].fieldValues, { i: "0" });
+    assertEquals(first.deletedIds, [ids[1]]);
+    assertEquals(first.nextId, ids[2]);
+
+    const rest = await redis.xautoclaim(
+      key,
+      "workers",
+      "alive",
+      0,
+      first.nextId,
+      { justid: true },
+    );
+    assertEquals(rest, {
+      kind: "justxid",
+      nextId: { unixMs: 0, seqNo: 0 },
+      xids: [ids[2]],
+      deletedIds: [],
+    });
+  } finally {
+    await redis.del(key);
+    redis.close();
+  }
+});
+
+Deno.test("Consumer - Reclaim idle messages", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("reclaim");
+
+  try {
+    await redis.xgroupCreate(key, "workers", "$", true);
+    for (const task of ["a", "b", "fail"]) {
+      await redis.xadd(key, "*", { task });
+    }
+    // Delivered to a consumer which never acknowledges them
+    await redis.xreadgroup([{ key, xid: ">" }], {
+      group: "workers",
+      consumer: "crashed",
+    });
+
+    const handled: string[] = [];
+    const reclaimer = createStreamReclaimer(redis, {
+      key,
+      group: "workers",
+      consumer: "alive",
+      minIdleTime: 50,
+      intervalMs: 20,
+      count: 1,
+      handler: ({ fieldValues }) => {
+        if (fieldValues.task === "fail") throw new Error("Failed");
+        handled.push(fieldValues.task);
+      },
+      onError: () => {},
+    });
+
+    // The failed message stays pending, claimed by the reclaimer
+    const failedOwner = async () => {
+      const [pending] = await redis.xpendingCount(key, "workers", {
+        start: "-",
+        end: "+",
+        count: 10,
+      });
+      return pending?.owner;
+    };
+    await waitFor(
+      async () => handled.length === 2 && await failedOwner() === "alive",
+      3000,
+      20,
+    );
+    assertEquals(handled, ["a", "b"]);
+
+    await reclaimer.stop();
+    assertEquals(reclaimer.isClosed, true);
+  } finally {
+    await redis.del(key);
+    redis.close();
+  }
+});
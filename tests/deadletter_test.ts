@@ -0,0 +1,149 @@
+import { assertEquals } from "@std/assert";
+import {
+  createStreamReclaimer,
+  deadLetterMessages,
+  listDeadLetters,
+  replayDeadLetters,
+} from "../mod.ts";
+import { createTestRedis, randomTestKey, waitFor } from "./test_helper.ts";
+
+Deno.test("Dead letter - Move, list and replay messages", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("deadletter");
+  const deadLetterKey = `${key}:dead-letter`;
+
+  try {
+    await redis.xgroupCreate(key, "workers", "$", true);
+    const poison = await redis.xadd(key, "*", { task: "poison" });
+    await redis.xadd(key, "*", { task: "ok" });
+    await redis.xreadgroup([{ key, xid: ">" }], {
+      group: "workers",
+      consumer: "worker-1",
+    });
+    // Delivered again twice
+    for (let i = 0; i < 2; i++) {
+      await redis.xclaim(
+        key,
+        { group: "workers", consumer: "worker-2", minIdleTime: 0 },
+        poison,
+      );
+    }
+
+    const moved = await deadLetterMessages(redis, {
+      key,
+      group: "workers",
+      maxDeliveries: 2,
+    });
+    assertEquals(moved.length, 1);
+    assertEquals(moved[0].sourceXId, poison);
+
+    // Only the message below the limit is still pending
+    assertEquals((await redis.xpending(key, "workers")).count, 1);
+
+    const [deadLetter] = await listDeadLetters(redis, deadLetterKey);
+    assertEquals(deadLetter.xid, moved[0].xid);
+    assertEquals(deadLetter.fieldValues, { task: "poison" });
+    assertEquals(deadLetter.source, key);
+    assertEquals(deadLetter.sourceXId, poison);
+    assertEquals(deadLetter.group, "workers");
+    assertEquals(deadLetter.consumer, "worker-2");
+    assertEquals(deadLetter.deliveries, 3);
+    assertEquals(deadLetter.deadLetteredAt, moved[0].deadLetteredAt);
+
+    const [replayed] = await replayDeadLetters(redis, deadLetterKey, [
+      deadLetter.xid,
+    ]);
+    const [message] = await redis.xrange(key, replayed, replayed);
+    assertEquals(message.fieldValues, { task: "poison" });
+    assertEquals(await listDeadLetters(redis, deadLetterKey), []);
+  } finally {
+    await redis.del(key, deadLetterKey);
+    redis.close();
+  }
+});
+
+Deno.test("Dead letter - Page through pending messages", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("deadletter");
+  const deadLetterKey = `${key}:dead-letter`;
+
+  try {
+    await redis.xgroupCreate(key, "workers", "$", true);
+    const xids = [];
+    for (let i = 0; i < 3; i++) {
+      xids.push(await redis.xadd(key, "*", { task: `poison${i}` }));
+    }
+    await redis.xreadgroup([{ key, xid: ">" }], {
+      group: "workers",
+      consumer: "worker-1",
+    });
+    await redis.xclaim(
+      key,
+      { group: "workers", consumer: "worker-2", minIdleTime: 0 },
+      ...xids,
+    );
+
+    // Every page starts after the last pending message of the previous one
+    const moved = await deadLetterMessages(redis, {
+      key,
+      group: "workers",
+      maxDeliveries: 1,
+      count: 1,
+    });
+    assertEquals(moved.map(({ sourceXId }) => sourceXId), xids);
+    assertEquals((await listDeadLetters(redis, deadLetterKey)).length, 3);
+  } finally {
+    await redis.del(key, deadLetterKey);
+    redis.close();
+  }
+});
+
+Deno.test("Dead letter - Reclaimer moves poison messages", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("deadletter");
+  const deadLetterKey = randomTestKey("dead-letters");
+
+  try {
+    await redis.xgroupCreate(key, "workers", "$", true);
+    await redis.xadd(key, "*", { task: "poison" });
+    await redis.xreadgroup([{ key, xid: ">" }], {
+      group: "workers",
+      consumer: "crashed",
+    });
+
+    let attempts = 0;
+    const reclaimer = createStreamReclaimer(redis, {
+      key,
+      group: "workers",
+      consumer: "alive",
+      minIdleTime: 10,
+      intervalMs: 10,
+      handler: () => {
+        attempts++;
+        throw new Error("Poison");
+      },
+      onError: () => {},
+      deadLetter: { maxDeliveries: 2, deadLetterKey },
+    });
+
+    await waitFor(
+      async () => (await listDeadLetters(redis, deadLetterKey)).length === 1,
+      3000,
+      20,
+    );
+    await reclaimer.stop();
+    // Delivered to the crashed consumer, then claimed twice
+    assertEquals(attempts, 2);
+    assertEquals(
+      await redis.xpendingCount(key, "workers", {
+        start: "-",
+        end: "+",
+        count: 10,
+      }),
+      [],
+    );
+  } finally {
+    await redis.del(key, deadLetterKey);
+    redis.close();
+  }
+});
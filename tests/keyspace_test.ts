@@ -0,0 +1,89 @@
+import { assertEquals } from "@std/assert";
+import { keyspaceNotifications } from "../mod.ts";
+import { parseKeyspaceNotification } from "../keyspace.ts";
+import { createTestRedis, randomTestKey } from "./test_helper.ts";
+
+Deno.test("Keyspace - Parse notifications", () => {
+  assertEquals(parseKeyspaceNotification("__keyspace@0__:user:1", "hset"), {
+    db: 0,
+    key: "user:1",
+    event: "hset",
+    source: "keyspace",
+  });
+  assertEquals(parseKeyspaceNotification("__keyevent@3__:expired", "a:b"), {
+    db: 3,
+    key: "a:b",
+    event: "expired",
+    source: "keyevent",
+  });
+  assertEquals(parseKeyspaceNotification("news", "hello"), null);
+});
+
+Deno.test("Keyspace - Receive notifications", async () => {
+  const redis = await createTestRedis();
+  const prefix = randomTestKey("keyspace");
+  const key = `${prefix}:item`;
+
+  try {
+    const notifications = await keyspaceNotifications(redis, {
+      db: 0,
+      pattern: `${prefix}:*`,
+      notifyKeyspaceEvents: "KEA",
+    });
+    const iterator = notifications.receive();
+
+    await redis.set(key, "value");
+    await redis.del(key);
+    assertEquals((await iterator.next()).value, {
+      db: 0,
+      key,
+      event: "set",
+      source: "keyspace",
+    });
+    assertEquals((await iterator.next()).value, {
+      db: 0,
+      key,
+      event: "del",
+      source: "keyspace",
+    });
+
+    notifications.close();
+    assertEquals(notifications.isClosed, true);
+  } finally {
+    await redis.configSet("notify-keyspace-events", "");
+    redis.close();
+  }
+});
+
+Deno.test("Keyspace - Receive notifications from both channels", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("keyspace");
+
+  try {
+    const notifications = await keyspaceNotifications(redis, {
+      db: 0,
+      channel: "both",
+      notifyKeyspaceEvents: "KEA",
+    });
+    const iterator = notifications.receive();
+
+    await redis.set(key, "value");
+    const received = [
+      (await iterator.next()).value,
+      (await iterator.next()).value,
+    ];
+    assertEquals(
+      received.map(({ source }) => source).sort(),
+      ["keyevent", "keyspace"],
+    );
+    for (const notification of received) {
+      assertEquals(notification.key, key);
+      assertEquals(notification.event, "set");
+    }
+
+    notifications.close();
+  } finally {
+    await redis.configSet("notify-keyspace-events", "");
+    redis.close();
+  }
+});
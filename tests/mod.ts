@@ -9,6 +9,7 @@ export {
   assertInstanceOf,
   assertNotEquals,
   assertRejects,
+  assertThrows,
 } from "@std/assert";
 
 // Test configuration
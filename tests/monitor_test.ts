@@ -0,0 +1,58 @@
+import { assertEquals } from "@std/assert";
+import { parseMonitorEntry } from "../monitor.ts";
+import type { RedisMonitorEntry } from "../mod.ts";
+import { createTestRedis, randomTestKey } from "./test_helper.ts";
+
+Deno.test("Monitor - Parse entries", () => {
+  assertEquals(
+    parseMonitorEntry(
+      '1339518083.107412 [0 127.0.0.1:60866] "SET" "k\\"ey" "a\\x41\\n"',
+    ),
+    {
+      timestamp: 1339518083107,
+      db: 0,
+      client: "127.0.0.1:60866",
+      command: "SET",
+      args: ['k"ey', "aA\n"],
+    },
+  );
+  assertEquals(
+    parseMonitorEntry('1339518083.107412 [2 lua] "get" "x"')?.client,
+    "lua",
+  );
+  assertEquals(parseMonitorEntry("OK"), null);
+});
+
+Deno.test("Monitor - Stream commands", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("monitor");
+
+  try {
+    const monitor = await redis.monitor();
+    const entries: RedisMonitorEntry[] = [];
+    const received = (async () => {
+      for await (const entry of monitor) {
+        if (entry.args[0] === key) {
+          entries.push(entry);
+        }
+        if (entries.length === 2) break;
+      }
+    })();
+
+    // The client is still usable while monitoring
+    await redis.set(key, "value");
+    assertEquals(await redis.get(key), "value");
+    await received;
+
+    assertEquals(entries.map((e) => e.command.toUpperCase()), ["SET", "GET"]);
+    assertEquals(entries[0].args, [key, "value"]);
+    assertEquals(entries[0].db, 0);
+
+    monitor.close();
+    assertEquals(monitor.isClosed, true);
+    assertEquals(redis.isClosed, false);
+  } finally {
+    await redis.del(key);
+    redis.close();
+  }
+});
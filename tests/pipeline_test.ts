@@ -1,4 +1,5 @@
-import { assertEquals, assertInstanceOf } from "@std/assert";
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import { ErrorReplyError, TransactionAbortedError } from "../mod.ts";
 import {
   cleanupTestKeys,
   createTestRedis,
@@ -202,3 +203,239 @@ Deno.test("Pipeline - Performance comparison", async () => {
     redis.close();
   }
 });
+
+Deno.test("Pipeline - Large batch in a single flush", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    const key = randomTestKey("batch");
+    const commandCount = 5000;
+
+    const pipeline = redis.pipeline();
+    for (let i = 0; i < commandCount; i++) {
+      pipeline.hset(key, `field${i}`, `value${i}`);
+    }
+    pipeline.hlen(key);
+
+    const results = await pipeline.flush();
+    assertEquals(results.length, commandCount + 1);
+    assertEquals(results.slice(0, commandCount).every((r) => r === 1), true);
+    assertEquals(results[commandCount], commandCount);
+
+    // The connection is still in sync after the flush
+    assertEquals(await redis.hget(key, "field42"), "value42");
+  } finally {
+    await cleanupTestKeys(redis);
+    redis.close();
+  }
+});
+
+Deno.test("Pipeline - Flushed alongside other commands", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    const key = randomTestKey("shared");
+    await redis.set(key, "shared");
+
+    const pipeline = redis.pipeline();
+    const tx = redis.tx();
+    for (let i = 0; i < 10; i++) {
+      pipeline.set(randomTestKey(`pipe${i}`), i);
+      pipeline.get(key);
+      tx.incr(randomTestKey(`tx${i}`));
+    }
+
+    // The batches are sent through the client's connection, so commands
+    // issued at the same time get their own replies
+    const [pipelined, get1, transaction, get2] = await Promise.all([
+      pipeline.flush(),
+      redis.get(key),
+      tx.flush(),
+      redis.get(key),
+    ]);
+    assertEquals(pipelined.length, 20);
+    assertEquals(pipelined.filter((reply) => reply === "shared").length, 10);
+    assertEquals(transaction, [1, 1, 1, 1, 1, 1, 1, 1, 1, 1]);
+    assertEquals(get1, "shared");
+    assertEquals(get2, "shared");
+  } finally {
+    await cleanupTestKeys(redis);
+    redis.close();
+  }
+});
+
+Deno.test("Transaction - Check-and-set", async () => {
+  const redis = await createTestRedis();
+  const other = await createTestRedis();
+  const key = randomTestKey("stock");
+
+  try {
+    await redis.set(key, "10");
+    let attempts = 0;
+    const results = await redis.transaction([key], async (tx) => {
+      attempts++;
+      const stock = Number(await tx.get(key));
+      if (attempts === 1) {
+        // Modified by another client after WATCH, so the callback is retried
+        await other.set(key, "5");
+      }
+      tx.queue.set(key, stock - 1);
+      tx.queue.get(key);
+    });
+
+    assertEquals(attempts, 2);
+    assertEquals(results, ["OK", "4"]);
+    assertEquals(await redis.get(key), "4");
+  } finally {
+    await redis.del(key);
+    other.close();
+    redis.close();
+  }
+});
+
+Deno.test("Transaction - Gives up after max retries", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("stock");
+
+  try {
+    let attempts = 0;
+    await assertRejects(
+      () =>
+        redis.transaction([key], async (tx) => {
+          attempts++;
+          await redis.incr(key);
+          tx.queue.incr(key);
+        }, { maxRetries: 2 }),
+      TransactionAbortedError,
+    );
+    assertEquals(attempts, 3);
+    assertEquals(await redis.get(key), "3");
+  } finally {
+    await redis.del(key);
+    redis.close();
+  }
+});
+
+Deno.test("Transaction - Commands which are not sent are rejected", async () => {
+  const redis = await createTestRedis();
+  const other = await createTestRedis();
+  const key = randomTestKey("tx");
+
+  try {
+    // Nothing is watched without keys
+    const results = await redis.transaction([], (tx) => {
+      tx.queue.set(key, "1");
+    });
+    assertEquals(results, ["OK"]);
+
+    // The commands queued by a failed callback are discarded
+    let queued: Promise<number> | undefined;
+    await assertRejects(
+      () =>
+        redis.transaction([key], (tx) => {
+          queued = tx.queue.incr(key);
+          throw new Error("Failed");
+        }),
+      Error,
+      "Failed",
+    );
+    await assertRejects(() => queued!, TransactionAbortedError);
+
+    // The callback is run again once the connection was reopened
+    const attempts: Promise<number>[] = [];
+    const retried = await redis.transaction([key], async (tx) => {
+      attempts.push(tx.queue.incr(key));
+      if (attempts.length === 1) {
+        await other.clientKill({ id: await tx.clientID() });
+        await tx.ping();
+      }
+    });
+    assertEquals(retried, [2]);
+    await assertRejects(() => attempts[0], TransactionAbortedError);
+    assertEquals(await attempts[1], 2);
+  } finally {
+    await redis.del(key);
+    other.close();
+    redis.close();
+  }
+});
+
+Deno.test("Pipeline - Typed command results", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    const key = randomTestKey("typed");
+    const counter = randomTestKey("counter");
+
+    const pipeline = redis.pipeline();
+    const set = pipeline.set(key, "value");
+    const incr = pipeline.incr(counter);
+    const get = pipeline.get(key);
+    const results = await pipeline.flush();
+
+    assertEquals(results, ["OK", 1, "value"]);
+    assertEquals(await set, "OK");
+    assertEquals(await incr, 1);
+    assertEquals(await get, "value");
+
+    // The results of the given commands, typed as a tuple
+    const [count, value]: [number, string | null] = await pipeline.flush(
+      pipeline.incr(counter),
+      pipeline.get(key),
+    );
+    assertEquals([count, value], [2, "value"]);
+
+    const failed = pipeline.sendCommand("SET", "incomplete");
+    await pipeline.flush();
+    await assertRejects(() => failed, ErrorReplyError);
+  } finally {
+    await cleanupTestKeys(redis);
+    redis.close();
+  }
+});
+
+Deno.test("Pipeline - Typed transaction results", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    const counter = randomTestKey("counter");
+
+    const tx = redis.tx();
+    const [first, second] = await tx.flush(tx.incr(counter), tx.incr(counter));
+    assertEquals([first, second], [1, 2]);
+  } finally {
+    await cleanupTestKeys(redis);
+    redis.close();
+  }
+});
+
+Deno.test("Transaction - EXEC results and errors", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    const key = randomTestKey("tx");
+
+    const tx = redis.tx();
+    tx.set(key, "text");
+    tx.incr(key);
+    tx.get(key);
+    const results = await tx.flush();
+    assertEquals(results.length, 3);
+    assertEquals(results[0], "OK");
+    assertInstanceOf(results[1], ErrorReplyError);
+    assertEquals(results[2], "text");
+
+    // A command rejected while queued discards the whole transaction
+    tx.set(key, "other");
+    tx.sendCommand("SET", "incomplete");
+    const error = await assertRejects(
+      () => tx.flush(),
+      TransactionAbortedError,
+    );
+    assertInstanceOf(error.cause, ErrorReplyError);
+    assertEquals(await redis.get(key), "text");
+  } finally {
+    await cleanupTestKeys(redis);
+    redis.close();
+  }
+});
@@ -0,0 +1,82 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { createPool } from "../mod.ts";
+import { PoolTimeoutError } from "../errors.ts";
+import { isBlockingCommand } from "../pool.ts";
+import { randomTestKey, TEST_REDIS_CONFIG } from "./test_helper.ts";
+
+Deno.test("Pool - Blocking commands", () => {
+  assertEquals(isBlockingCommand("brpop", ["list", 0]), true);
+  assertEquals(
+    isBlockingCommand("XREAD", ["BLOCK", 0, "STREAMS", "s", "$"]),
+    true,
+  );
+  assertEquals(isBlockingCommand("XREAD", ["STREAMS", "s", "0"]), false);
+  assertEquals(isBlockingCommand("GET", ["key"]), false);
+});
+
+Deno.test("Pool - Blocking command does not stall other commands", async () => {
+  const redis = await createPool({ ...TEST_REDIS_CONFIG, max: 2 });
+  const list = randomTestKey("pool:list");
+  const key = randomTestKey("pool:key");
+
+  try {
+    const popped = redis.brpop(5, list);
+
+    // Served by the shared connection while BRPOP waits on a leased one
+    await redis.set(key, "value");
+    assertEquals(await redis.get(key), "value");
+
+    await redis.lpush(list, "job-1");
+    assertEquals(await popped, [list, "job-1"]);
+  } finally {
+    await redis.del(list, key);
+    redis.close();
+  }
+});
+
+Deno.test("Pool - Acquire and release", async () => {
+  const redis = await createPool({
+    ...TEST_REDIS_CONFIG,
+    max: 1,
+    acquireTimeout: 200,
+  });
+
+  try {
+    const conn = await redis.acquire();
+    assertEquals(await conn.ping(), "PONG");
+
+    await assertRejects(() => redis.acquire(), PoolTimeoutError);
+
+    const waiting = redis.acquire();
+    conn.release();
+    conn.release(); // Releasing twice is a no-op
+    const next = await waiting;
+    assertEquals(await next.ping(), "PONG");
+    next.release();
+  } finally {
+    redis.close();
+  }
+});
+
+Deno.test("Pool - Subscribe on a leased connection", async () => {
+  const redis = await createPool({ ...TEST_REDIS_CONFIG, max: 1 });
+  const channel = randomTestKey("pool:channel");
+
+  try {
+    const sub = await redis.subscribe(channel);
+    const iterator = sub.receive();
+
+    // Regular commands keep working while subscribed
+    assertEquals(await redis.publish(channel, "hello"), 1);
+    const { value } = await iterator.next();
+    assertEquals(value?.message, "hello");
+
+    // Closing the subscription gives its slot back to the pool
+    sub.close();
+    const conn = await redis.acquire();
+    assertEquals(await conn.ping(), "PONG");
+    conn.release();
+  } finally {
+    redis.close();
+  }
+});
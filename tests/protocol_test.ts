@@ -0,0 +1,225 @@
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import {
+  BufferedReader,
+  readArrayReplies,
+  readReplies,
+  readReply,
+  sendCommand,
+  sendCommands,
+  skipPushReplies,
+} from "../protocol/mod.ts";
+import { ErrorReplyError } from "../errors.ts";
+import type { RedisReply } from "../protocol/mod.ts";
+import { decoder, encoder } from "../utils.ts";
+
+function createStream(...chunks: string[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+function createReader(...chunks: string[]) {
+  return new BufferedReader(createStream(...chunks));
+}
+
+Deno.test("Protocol - RESP2 replies", async () => {
+  assertEquals((await readReply(createReader(":42\r\n"))).value(), 42);
+  assertEquals((await readReply(createReader("+OK\r\n"))).value(), "OK");
+  assertEquals((await readReply(createReader("$3\r\nfoo\r\n"))).value(), "foo");
+  assertEquals((await readReply(createReader("$-1\r\n"))).value(), null);
+  assertEquals(
+    (await readReply(createReader("*2\r\n$1\r\na\r\n:1\r\n"))).value(),
+    ["a", 1],
+  );
+  await assertRejects(
+    () => readReply(createReader("-ERR unknown command\r\n")),
+    ErrorReplyError,
+  );
+});
+
+Deno.test("Protocol - RESP3 map reply", async () => {
+  const reply = await readReply(
+    createReader("%2\r\n+first\r\n:1\r\n$6\r\nsecond\r\n*1\r\n:2\r\n"),
+  );
+  assertEquals(
+    reply.value(),
+    new Map<string, number | number[]>([["first", 1], ["second", [2]]]),
+  );
+  // `array()` exposes the RESP2 flat representation
+  assertEquals(reply.array(), ["first", 1, "second", [2]]);
+});
+
+Deno.test("Protocol - RESP3 set and push replies", async () => {
+  assertEquals(
+    (await readReply(createReader("~2\r\n+a\r\n+b\r\n"))).value(),
+    ["a", "b"],
+  );
+  assertEquals(
+    (await readReply(
+      createReader(">3\r\n$7\r\nmessage\r\n$2\r\nch\r\n$2\r\nhi\r\n"),
+    )).array(),
+    ["message", "ch", "hi"],
+  );
+});
+
+Deno.test("Protocol - RESP3 scalar replies", async () => {
+  assertEquals((await readReply(createReader(",3.14\r\n"))).value(), 3.14);
+  assertEquals((await readReply(createReader(",inf\r\n"))).value(), Infinity);
+  assertEquals((await readReply(createReader(",-inf\r\n"))).value(), -Infinity);
+  assertEquals((await readReply(createReader("#t\r\n"))).value(), true);
+  assertEquals((await readReply(createReader("#f\r\n"))).value(), false);
+  assertEquals(
+    (await readReply(
+      createReader("(3492890328409238509324850943850943825024385\r\n"),
+    )).value(),
+    3492890328409238509324850943850943825024385n,
+  );
+  assertEquals(
+    (await readReply(createReader("=15\r\ntxt:Some string\r\n"))).value(),
+    "Some string",
+  );
+  assertEquals((await readReply(createReader("_\r\n"))).value(), null);
+  await assertRejects(
+    () => readReply(createReader("!21\r\nSYNTAX invalid syntax\r\n")),
+    ErrorReplyError,
+  );
+});
+
+Deno.test("Protocol - RESP3 attributes are skipped", async () => {
+  const reply = await readReply(
+    createReader(
+      "|1\r\n+key-popularity\r\n%1\r\n$1\r\na\r\n,0.19\r\n",
+      "*1\r\n:2039123\r\n",
+    ),
+  );
+  assertEquals(reply.value(), [2039123]);
+});
+
+Deno.test("Protocol - sendCommands writes once and reads every reply", async () => {
+  const writes: string[] = [];
+  const writable = new WritableStream<Uint8Array>({
+    write(chunk) {
+      writes.push(decoder.decode(chunk));
+    },
+  });
+  // All the replies arrive in a single chunk
+  const reader = createReader("+OK\r\n:2\r\n-ERR boom\r\n$3\r\nbar\r\n");
+
+  const replies = await sendCommands(writable, reader, [
+    { command: "SET", args: ["foo", "bar"] },
+    { command: "INCR", args: ["n"] },
+    { command: "BOOM", args: [] },
+    { command: "GET", args: ["foo"] },
+  ]);
+
+  assertEquals(writes.length, 1);
+  assertEquals(
+    writes[0],
+    "*3\r\n$3\r\nSET\r\n$3\r\nfoo\r\n$3\r\nbar\r\n" +
+      "*2\r\n$4\r\nINCR\r\n$1\r\nn\r\n" +
+      "*1\r\n$4\r\nBOOM\r\n" +
+      "*2\r\n$3\r\nGET\r\n$3\r\nfoo\r\n",
+  );
+  assertEquals(replies.length, 4);
+  assertEquals(replies[0], "OK");
+  assertEquals(replies[1], 2);
+  assertInstanceOf(replies[2], ErrorReplyError);
+  assertEquals(replies[3], "bar");
+});
+
+Deno.test("Protocol - EXEC replies keep errors in place", async () => {
+  const reader = createReader("*3\r\n+OK\r\n-ERR wrong type\r\n:1\r\n:5\r\n");
+  const replies = await readArrayReplies(reader);
+  assertEquals(replies?.length, 3);
+  assertEquals((replies![0] as RedisReply).value(), "OK");
+  assertInstanceOf(replies![1], ErrorReplyError);
+  assertEquals((replies![2] as RedisReply).integer(), 1);
+  // The reader is still in sync
+  assertEquals((await readReply(reader)).value(), 5);
+
+  assertEquals(await readArrayReplies(createReader("*-1\r\n")), null);
+  assertEquals(await readArrayReplies(createReader("_\r\n")), null);
+  await assertRejects(
+    () =>
+      readArrayReplies(createReader("-EXECABORT Transaction discarded\r\n")),
+    ErrorReplyError,
+  );
+});
+
+Deno.test("Protocol - nested errors are thrown once the reply is read", async () => {
+  const reader = createReader(
+    "*3\r\n-ERR wrong type\r\n*2\r\n+a\r\n-ERR nested\r\n+OK\r\n",
+    "%2\r\n+k\r\n-ERR in map\r\n+k2\r\n:2\r\n",
+    ":5\r\n",
+  );
+  const error = await assertRejects(() => readReply(reader), ErrorReplyError);
+  assertEquals(error.message, "-ERR wrong type");
+  await assertRejects(() => readReply(reader), ErrorReplyError);
+  // The reader is still in sync
+  assertEquals((await readReply(reader)).value(), 5);
+});
+
+Deno.test("Protocol - push frames are not taken for replies", async () => {
+  const invalidate = ">2\r\n$10\r\ninvalidate\r\n*1\r\n$3\r\nkey\r\n";
+  const reader = createReader(
+    invalidate,
+    "+OK\r\n",
+    invalidate,
+    invalidate,
+    ":1\r\n",
+    invalidate,
+    "*1\r\n+QUEUED\r\n",
+  );
+  const replies = await readReplies(reader, 2);
+  assertEquals(replies.map((reply) => (reply as RedisReply).value()), [
+    "OK",
+    1,
+  ]);
+  const exec = await readArrayReplies(reader);
+  assertEquals((exec![0] as RedisReply).value(), "QUEUED");
+
+  const single = createReader(invalidate, ":2\r\n");
+  await skipPushReplies(single);
+  assertEquals((await readReply(single)).value(), 2);
+});
+
+Deno.test("Protocol - buffered reader keeps over-read bytes", async () => {
+  // Several frames in one chunk, and a frame split across chunks
+  const reader = createReader(
+    "+OK\r\n:1\r\n$5\r\nhel",
+    "lo\r\n*1\r",
+    "\n:2\r\n",
+  );
+
+  assertEquals((await readReply(reader)).value(), "OK");
+  assertEquals((await readReply(reader)).value(), 1);
+  assertEquals((await readReply(reader)).value(), "hello");
+  assertEquals((await readReply(reader)).value(), [2]);
+  assertEquals(reader.buffered, 0);
+});
+
+Deno.test("Protocol - streams are accepted in place of a buffered reader", async () => {
+  const streamReader = createStream(":1\r\n", "+OK\r\n").getReader();
+  assertEquals((await readReply(streamReader)).value(), 1);
+  const replies = await readReplies(streamReader, 1);
+  assertEquals((replies[0] as RedisReply).value(), "OK");
+
+  // The stream is only locked while the replies are read
+  const writable = new WritableStream<Uint8Array>();
+  const readable = createStream("+PONG\r\n", ":1\r\n:2\r\n");
+  assertEquals((await sendCommand(writable, readable, "PING")).value(), "PONG");
+  assertEquals(readable.locked, false);
+  assertEquals(
+    await sendCommands(writable, readable, [
+      { command: "INCR", args: ["a"] },
+      { command: "INCR", args: ["b"] },
+    ]),
+    [1, 2],
+  );
+  assertEquals(readable.locked, false);
+});
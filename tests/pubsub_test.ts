@@ -1,5 +1,5 @@
-import { assertEquals } from "@std/assert";
-import { connect } from "../mod.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { connect, SubscriptionOverflowError } from "../mod.ts";
 import { createTestRedis, TEST_REDIS_CONFIG, waitFor } from "./test_helper.ts";
 
 Deno.test("PubSub - Basic subscription", async () => {
@@ -213,3 +213,218 @@ Deno.test("PubSub - Unsubscribe", async () => {
     subscriber.close();
   }
 });
+
+Deno.test("PubSub - Client stays usable while subscribed", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    const channel = "test-dedicated-channel";
+    const sub = await redis.subscribe(channel);
+    const iterator = sub.receive();
+
+    // The subscription has its own connection
+    assertEquals(await redis.ping(), "PONG");
+    assertEquals(await redis.publish(channel, "hello"), 1);
+
+    const { value } = await iterator.next();
+    assertEquals(value?.message, "hello");
+
+    sub.close();
+    assertEquals(sub.isClosed, true);
+    assertEquals(redis.isClosed, false);
+    assertEquals(await redis.ping(), "PONG");
+  } finally {
+    redis.close();
+  }
+});
+
+Deno.test("PubSub - Sharded channels", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    const channel = "test-shard-channel";
+    const sub = await redis.ssubscribe(channel);
+    const iterator = sub.receive();
+
+    assertEquals(await redis.pubsubShardChannels("test-shard-*"), [channel]);
+    assertEquals(await redis.pubsubShardNumsub(channel), [channel, 1]);
+
+    assertEquals(await redis.spublish(channel, "hello"), 1);
+    const { value } = await iterator.next();
+    assertEquals(value, { channel, message: "hello" });
+
+    await sub.sunsubscribe(channel);
+    assertEquals(await redis.pubsubShardNumsub(channel), [channel, 0]);
+    sub.close();
+  } finally {
+    redis.close();
+  }
+});
+
+Deno.test("PubSub - Subscription events", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    const sub = await redis.subscribe("test-events-1");
+    const events: string[] = [];
+    sub.addEventListener("subscribed", (event) => {
+      events.push(`subscribed ${event.kind} ${event.channel}`);
+    });
+    sub.addEventListener("unsubscribed", (event) => {
+      events.push(`unsubscribed ${event.kind} ${event.channel}`);
+    });
+
+    // Resolves once every channel is confirmed
+    await sub.subscribe("test-events-2", "test-events-3");
+    await sub.psubscribe("test-events:*");
+    assertEquals(sub.counts, { channels: 3, patterns: 1, shardChannels: 0 });
+    assertEquals(events, [
+      "subscribed channel test-events-2",
+      "subscribed channel test-events-3",
+      "subscribed pattern test-events:*",
+    ]);
+
+    events.length = 0;
+    await sub.unsubscribe();
+    assertEquals(sub.counts, { channels: 0, patterns: 1, shardChannels: 0 });
+    assertEquals(events.length, 3);
+    sub.close();
+  } finally {
+    redis.close();
+  }
+});
+
+Deno.test("PubSub - Resubscribe after reconnect", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    const channel = "test-reconnect-channel";
+    const sub = await redis.subscribe(channel);
+    const events: string[] = [];
+    const reconnected = new Promise<void>((resolve) => {
+      sub.addEventListener("reconnecting", () => events.push("reconnecting"));
+      sub.addEventListener("reconnected", (event) => {
+        events.push("reconnected");
+        assertEquals(event.counts.channels, 1);
+        resolve();
+      });
+    });
+
+    await redis.clientKill({ type: "PUBSUB" });
+    await reconnected;
+    assertEquals(events, ["reconnecting", "reconnected"]);
+
+    const iterator = sub.receive();
+    assertEquals(await redis.publish(channel, "hello"), 1);
+    const { value } = await iterator.next();
+    assertEquals(value?.message, "hello");
+    sub.close();
+  } finally {
+    redis.close();
+  }
+});
+
+Deno.test("PubSub - Handlers and multiple iterators", async () => {
+  const redis = await createTestRedis();
+
+  try {
+    const sub = await redis.psubscribe("test-orders.*");
+    await sub.subscribe("test-payments");
+    const orders: string[] = [];
+    const payments: string[] = [];
+    sub.on("test-orders.*", ({ channel, message }) => {
+      orders.push(`${channel} ${message}`);
+    });
+    const off = sub.on("test-payments", ({ message }) => {
+      payments.push(message);
+    });
+
+    const first = sub.receive();
+    const second = sub.receive();
+    const received = Promise.all([first.next(), second.next()]);
+    await redis.publish("test-orders.eu", "created");
+    const [a, b] = await received;
+    assertEquals(a.value?.channel, "test-orders.eu");
+    assertEquals(b.value?.channel, "test-orders.eu");
+    assertEquals(orders, ["test-orders.eu created"]);
+
+    await redis.publish("test-payments", "paid");
+    await waitFor(() => payments.length === 1);
+    off();
+    await redis.publish("test-payments", "refunded");
+    assertEquals((await first.next()).value?.message, "paid");
+    assertEquals((await first.next()).value?.message, "refunded");
+    assertEquals(payments, ["paid"]);
+    sub.close();
+  } finally {
+    redis.close();
+  }
+});
+
+Deno.test("PubSub - Handler errors are logged", async () => {
+  const redis = await createTestRedis();
+  const channel = "test-handler-errors";
+  const logged: unknown[] = [];
+  const consoleError = console.error;
+  console.error = (_message: unknown, error: unknown) => logged.push(error);
+
+  try {
+    const sub = await redis.subscribe(channel);
+    const received: string[] = [];
+    sub.on(channel, () => {
+      throw new Error("sync");
+    });
+    sub.on(channel, () => Promise.reject(new Error("async")));
+    sub.on(channel, ({ message }) => {
+      received.push(message);
+    });
+
+    await redis.publish(channel, "hello");
+    await waitFor(() => logged.length === 2);
+    assertEquals(received, ["hello"]);
+    assertEquals(
+      logged.map((error) => (error as Error).message).sort(),
+      ["async", "sync"],
+    );
+    sub.close();
+  } finally {
+    console.error = consoleError;
+    redis.close();
+  }
+});
+
+Deno.test("PubSub - Bounded iterator buffers", async () => {
+  const redis = await createTestRedis();
+  const channel = "test-overflow-channel";
+
+  try {
+    const sub = await redis.subscribe(channel);
+    const oldest = sub.receive({ bufferSize: 2, overflow: "drop-oldest" });
+    const newest = sub.receive({ bufferSize: 2, overflow: "drop-newest" });
+    const error = sub.receive({ bufferSize: 2, overflow: "error" });
+    let count = 0;
+    sub.on(channel, () => {
+      count++;
+    });
+    // The iterators start with the first message, then fall behind
+    const started = Promise.all([oldest.next(), newest.next(), error.next()]);
+    await redis.publish(channel, "1");
+    await started;
+    for (const message of ["2", "3", "4"]) {
+      await redis.publish(channel, message);
+    }
+    await waitFor(() => count === 4);
+
+    const messages = async (iterator: AsyncIterator<{ message: string }>) => [
+      (await iterator.next()).value.message,
+      (await iterator.next()).value.message,
+    ];
+    assertEquals(await messages(oldest), ["3", "4"]);
+    assertEquals(await messages(newest), ["2", "3"]);
+    assertEquals(await messages(error), ["2", "3"]);
+    await assertRejects(() => error.next(), SubscriptionOverflowError);
+    sub.close();
+  } finally {
+    redis.close();
+  }
+});
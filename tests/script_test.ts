@@ -0,0 +1,90 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { defineScript } from "../mod.ts";
+import { createTestRedis, randomTestKey } from "./test_helper.ts";
+
+Deno.test("Script - EVALSHA with NOSCRIPT fallback", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("script");
+  const script = defineScript<string[]>({
+    source: "return ARGV",
+    numberOfKeys: 1,
+  });
+
+  try {
+    await redis.scriptFlush();
+    // The script is unknown to the server, so it is sent with EVAL
+    assertEquals(await script.exec(redis, [key], ["a", "b"]), ["a", "b"]);
+    assertEquals(await redis.scriptExists(await script.sha1()), [1]);
+    assertEquals(await script.exec(redis, [key], ["c"]), ["c"]);
+
+    // Binary arguments are sent as is
+    assertEquals(
+      await script.exec(redis, [key], [new TextEncoder().encode("bin")]),
+      ["bin"],
+    );
+
+    await redis.scriptFlush();
+    assertEquals(await script.load(redis), await script.sha1());
+
+    await assertRejects(
+      () => script.exec(redis, [key, key]),
+      Error,
+      "The script takes 1 keys, got 2",
+    );
+  } finally {
+    redis.close();
+  }
+});
+
+Deno.test("Script - Bound to a client", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("script");
+
+  try {
+    const keys = redis.script<string[]>({ source: "return KEYS" });
+    assertEquals(await keys.exec([key]), [key]);
+    assertEquals(await keys.load(), await keys.script.sha1());
+
+    // Defined scripts are reused as is
+    const script = defineScript({ source: "return KEYS" });
+    assertEquals(redis.script(script).script, script);
+  } finally {
+    redis.close();
+  }
+});
+
+Deno.test("Script - Queued in a pipeline", async () => {
+  const redis = await createTestRedis();
+  const key = randomTestKey("script");
+  const script = defineScript<string[]>({
+    source: "return KEYS",
+    numberOfKeys: 1,
+  });
+
+  try {
+    await script.load(redis);
+    const pl = redis.pipeline();
+    const result = script.exec(pl, [key]);
+    // EVALSHA is queued by the time exec() returns
+    assertEquals(await pl.flush(), [[key]]);
+    assertEquals(await result, [key]);
+  } finally {
+    redis.close();
+  }
+});
+
+Deno.test("Script - Not loaded in a pipeline", async () => {
+  const redis = await createTestRedis();
+  const script = defineScript({ source: "return 'not loaded'" });
+
+  try {
+    await redis.scriptFlush();
+    const pl = redis.pipeline();
+    const result = script.exec(pl);
+    const [reply] = await pl.flush();
+    assertEquals((reply as Error).message.startsWith("-NOSCRIPT"), true);
+    await assertRejects(() => result, Error, "must be loaded with load()");
+  } finally {
+    redis.close();
+  }
+});
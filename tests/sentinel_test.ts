@@ -0,0 +1,106 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { connect, connectSentinel } from "../mod.ts";
+import {
+  randomTestKey,
+  TEST_REDIS_SENTINEL_CONFIG,
+  waitFor,
+} from "./test_helper.ts";
+
+const { hostname, port, masterName } = TEST_REDIS_SENTINEL_CONFIG;
+const ignore = port === 0;
+
+Deno.test({
+  name: "Sentinel - Connect to master",
+  ignore,
+  async fn() {
+    const redis = await connectSentinel({
+      // The unreachable sentinel is skipped
+      sentinels: [{ hostname, port: 1 }, { hostname, port }],
+      masterName,
+    });
+    const key = randomTestKey("sentinel");
+
+    try {
+      const [role] = await redis.role();
+      assertEquals(role, "master");
+      assertEquals(await redis.set(key, "value"), "OK");
+      assertEquals(await redis.get(key), "value");
+    } finally {
+      await redis.del(key);
+      redis.close();
+    }
+  },
+});
+
+Deno.test({
+  name: "Sentinel - Connect to replica",
+  ignore,
+  async fn() {
+    const redis = await connectSentinel({
+      sentinels: [{ hostname, port }],
+      masterName,
+      role: "replica",
+    });
+
+    try {
+      const [role] = await redis.role();
+      assertEquals(role, "slave");
+    } finally {
+      redis.close();
+    }
+  },
+});
+
+Deno.test({
+  name: "Sentinel - Unknown master",
+  ignore,
+  async fn() {
+    await assertRejects(
+      () =>
+        connectSentinel({
+          sentinels: [{ hostname, port }],
+          masterName: "no-such-master",
+        }),
+      Error,
+      "No sentinel could resolve",
+    );
+  },
+});
+
+Deno.test({
+  name: "Sentinel - Follows consecutive failovers",
+  ignore,
+  async fn() {
+    const sentinel = await connect({ hostname, port });
+    const redis = await connectSentinel({
+      sentinels: [{ hostname, port }],
+      masterName,
+    });
+    const masterPort = async () => {
+      const reply = await sentinel.sendCommand(
+        "SENTINEL",
+        "GET-MASTER-ADDR-BY-NAME",
+        masterName,
+      );
+      return (reply.value() as [string, string])[1];
+    };
+
+    try {
+      for (let failover = 0; failover < 2; failover++) {
+        const before = await masterPort();
+        await sentinel.sendCommand("SENTINEL", "FAILOVER", masterName);
+        await waitFor(async () => await masterPort() !== before, 20000);
+        const after = await masterPort();
+        // The client reconnects to the promoted master after each failover
+        await waitFor(
+          async () => (await redis.configGet("port"))[1] === after,
+          20000,
+        );
+        assertEquals((await redis.role())[0], "master");
+      }
+    } finally {
+      sentinel.close();
+      redis.close();
+    }
+  },
+});
@@ -14,17 +14,19 @@ import {
   assertInstanceOf,
   assertNotEquals,
   assertRejects,
+  assertThrows,
   skipIfNoRedis,
   TEST_CONFIG,
   timeout,
 } from "./mod.ts";
-import { connect } from "../mod.ts";
+import { connect, type Redis } from "../mod.ts";
 import {
   parseXId,
   parseXMessage,
   parseXPendingCounts,
   parseXPendingConsumers,
   xidstr,
+  type XAddOpts,
   type XId,
   type XMessage,
   type XIdInput,
@@ -186,6 +188,88 @@ Deno.test("Stream - XLEN and XTRIM operations", async () => {
   }
 });
 
+// Only true when A and B are the same type.
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends
+  (<T>() => T extends B ? 1 : 2) ? true : false;
+
+Deno.test("Stream - XADD reply types", () => {
+  const trimmed = (redis: Redis) =>
+    redis.xadd("key", "*", { a: "1" }, { maxlen: 10 });
+  const noMkStream = (redis: Redis) =>
+    redis.xadd("key", "*", { a: "1" }, { nomkstream: true });
+  const anyOpts = (redis: Redis, opts: XAddOpts) =>
+    redis.xadd("key", "*", { a: "1" }, opts);
+
+  // NOMKSTREAM replies nil when the stream is missing
+  const checks: [
+    Equals<ReturnType<typeof trimmed>, Promise<XId>>,
+    Equals<ReturnType<typeof noMkStream>, Promise<XId | null>>,
+    Equals<ReturnType<typeof anyOpts>, Promise<XId | null>>,
+  ] = [true, true, true];
+  assertEquals(checks, [true, true, true]);
+});
+
+Deno.test("Stream - XADD and XTRIM options", async () => {
+  const redis = await createTestRedis();
+  const streamKey = randomTestKey("options-stream");
+
+  try {
+    // NOMKSTREAM does not create a missing stream
+    const missing = await redis.xadd(streamKey, "*", { a: "1" }, {
+      nomkstream: true,
+    });
+    assertEquals(missing, null);
+    assertEquals(await redis.xlen(streamKey), 0);
+
+    // Explicit time with an auto-generated sequence number
+    const first = await redis.xadd(streamKey, "1000-*", { index: "0" });
+    assertEquals(first, { unixMs: 1000, seqNo: 0 });
+    const second = await redis.xadd(streamKey, [1000, "*"], { index: "1" });
+    assertEquals(second, { unixMs: 1000, seqNo: 1 });
+
+    for (let i = 2; i < 6; i++) {
+      await redis.xadd(streamKey, [i * 1000, 0], { index: i.toString() }, {
+        nomkstream: true,
+      });
+    }
+    assertEquals(await redis.xlen(streamKey), 6);
+
+    // MINID evicts the entries with a lower XId
+    await redis.xadd(streamKey, [6000, 0], { index: "6" }, {
+      minid: 2000,
+      approx: false,
+    });
+    const remaining = await redis.xrange(streamKey, "-", "+");
+    assertEquals(remaining.map((m) => m.fieldValues.index), [
+      "2",
+      "3",
+      "4",
+      "5",
+      "6",
+    ]);
+
+    // MAXLEN keeps the latest entries
+    assertEquals(await redis.xtrim(streamKey, { maxlen: 3 }), 2);
+    assertEquals(await redis.xlen(streamKey), 3);
+
+    // An approximate trim may evict fewer entries, and LIMIT caps them
+    const trimmed = await redis.xtrim(streamKey, {
+      minid: [6000, 0],
+      approx: true,
+      limit: 100,
+    });
+    assertEquals(trimmed <= 2, true);
+
+    assertEquals(await redis.xtrim(streamKey, { minid: 6000 }) >= 0, true);
+    assertEquals(await redis.xlen(streamKey), 1);
+
+    console.log("✅ XADD and XTRIM options test completed");
+  } finally {
+    await cleanupTestKeys(redis, streamKey);
+    redis.close();
+  }
+});
+
 Deno.test("Stream - Consumer Groups operations", async () => {
   const redis = await createTestRedis();
   const streamKey = randomTestKey("group-stream");
@@ -520,3 +604,95 @@ Deno.test("Stream - Performance and stress test", async () => {
     redis.close();
   }
 });
+
+Deno.test("Stream - Iterating over new messages", async () => {
+  const redis = await createTestRedis();
+  const streamKey = randomTestKey("iterator-stream");
+
+  try {
+    const first = await redis.xadd(streamKey, "*", { index: "0" });
+
+    // From "$", only the messages added afterwards are yielded, including
+    // those added while no read is blocking
+    const tail = redis.streamIterator(streamKey, { blockMs: 100 });
+    const next = tail.next();
+    // Let the iterator start and a read time out
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    await redis.xadd(streamKey, "*", { index: "1" });
+    await redis.xadd(streamKey, "*", { index: "2" });
+    assertEquals((await next).value?.fieldValues.index, "1");
+    assertEquals((await tail.next()).value?.fieldValues.index, "2");
+    await tail.return?.();
+
+    // From a given XId, the messages added after it are yielded
+    const indexes: string[] = [];
+    for await (
+      const message of redis.streamIterator(streamKey, {
+        from: first,
+        count: 1,
+      })
+    ) {
+      indexes.push(message.fieldValues.index);
+      if (indexes.length === 2) break;
+    }
+    assertEquals(indexes, ["1", "2"]);
+
+    console.log("✅ Stream iterator test completed");
+  } finally {
+    await cleanupTestKeys(redis, streamKey);
+    redis.close();
+  }
+});
+
+Deno.test("Stream - Paging through messages", async () => {
+  const redis = await createTestRedis();
+  const streamKey = randomTestKey("paging-stream");
+
+  try {
+    const ids: XId[] = [];
+    for (let i = 0; i < 5; i++) {
+      ids.push(await redis.xadd(streamKey, "*", { index: i.toString() }));
+    }
+
+    // Each page starts after the last message of the previous one
+    const indexes: string[] = [];
+    for await (const message of redis.xrangeIterator(streamKey, "-", "+", 2)) {
+      indexes.push(message.fieldValues.index);
+    }
+    assertEquals(indexes, ["0", "1", "2", "3", "4"]);
+
+    const between: string[] = [];
+    for await (
+      const message of redis.xrangeIterator(
+        streamKey,
+        ids[1],
+        `(${xidstr(ids[4])}`,
+        2,
+      )
+    ) {
+      between.push(message.fieldValues.index);
+    }
+    assertEquals(between, ["1", "2", "3"]);
+
+    // An invalid page size is rejected before anything is read
+    for (const pageSize of [0, -1, 1.5]) {
+      assertThrows(
+        () => redis.xrangeIterator(streamKey, "-", "+", pageSize),
+        RangeError,
+      );
+    }
+
+    // Exclusive bounds can also be passed to XRANGE
+    const exclusive = await redis.xrange(
+      streamKey,
+      `(${xidstr(ids[0])}`,
+      `(${xidstr(ids[2])}`,
+    );
+    assertEquals(exclusive.map((m) => m.fieldValues.index), ["1"]);
+
+    console.log("✅ Stream paging test completed");
+  } finally {
+    await cleanupTestKeys(redis, streamKey);
+    redis.close();
+  }
+});
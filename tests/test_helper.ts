@@ -20,6 +20,23 @@ export const TEST_REDIS_CONFIG_PORT = {
   password: Deno.env.get("REDIS_PASSWORD"),
 };
 
+// Redis Cluster nodes, e.g. "127.0.0.1:7000,127.0.0.1:7001"
+const clusterNodes = Deno.env.get("REDIS_CLUSTER_NODES") || "";
+export const TEST_REDIS_CLUSTER_NODES = clusterNodes
+  .split(",")
+  .filter((node) => node !== "")
+  .map((node) => {
+    const [hostname, port] = node.split(":");
+    return { hostname, port: parseInt(port) };
+  });
+
+// Redis Sentinel, sentinel tests are skipped when REDIS_SENTINEL_PORT is unset
+export const TEST_REDIS_SENTINEL_CONFIG = {
+  hostname: Deno.env.get("REDIS_HOST") || "127.0.0.1",
+  port: parseInt(Deno.env.get("REDIS_SENTINEL_PORT") || "0"),
+  masterName: Deno.env.get("REDIS_SENTINEL_MASTER") || "mymaster",
+};
+
 // Check if Docker Redis is available
 export async function isDockerRedisAvailable(): Promise<boolean> {
   try {
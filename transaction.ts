@@ -0,0 +1,80 @@
+import { TransactionAbortedError } from "./errors.ts";
+import type { CommandExecutor } from "./executor.ts";
+import { createPipelineClient, PipelineExecutor } from "./pipeline.ts";
+import type { RawOrError } from "./protocol/mod.ts";
+import { create } from "./redis.ts";
+import type { Redis } from "./redis.ts";
+
+export interface RedisTransaction extends Redis {
+	/**
+	 * Commands called on `queue` are sent between `MULTI` and `EXEC` once the
+	 * callback has returned. Their promises resolve once the transaction has
+	 * run, so they must not be awaited by the callback.
+	 */
+	readonly queue: Redis;
+}
+
+export type TransactionCallback = (
+	tx: RedisTransaction,
+) => void | Promise<void>;
+
+export interface TransactionOptions {
+	/**
+	 * How many times the callback is run again when one of the watched keys
+	 * was modified before `EXEC`.
+	 * @default 3
+	 */
+	maxRetries?: number;
+}
+
+/**
+ * Runs `fn` with `keys` watched on the connection of `executor`, then sends
+ * the queued commands with `MULTI`/`EXEC`. Nothing is watched when `keys` is
+ * empty. Throwing from `fn` aborts the transaction.
+ */
+export async function transaction(
+	executor: CommandExecutor,
+	keys: string[],
+	fn: TransactionCallback,
+	options: TransactionOptions = {},
+): Promise<RawOrError[]> {
+	const { maxRetries = 3 } = options;
+	const client = create(executor);
+	for (let attempt = 0; attempt <= maxRetries; attempt++) {
+		if (keys.length > 0) {
+			await client.watch(...keys);
+		}
+		const reader = executor.connection.bufferedReader;
+		const pipeline = new PipelineExecutor(executor, true);
+		const queue = createPipelineClient(pipeline);
+		try {
+			await fn(Object.assign(create(executor), { queue }));
+		} catch (error) {
+			pipeline.discard(
+				new TransactionAbortedError("The transaction callback threw", {
+					cause: error,
+				}),
+			);
+			await client.unwatch();
+			throw error;
+		}
+		// The keys are no longer watched if the connection was reopened.
+		if (executor.connection.bufferedReader !== reader) {
+			pipeline.discard(
+				new TransactionAbortedError("The connection was reopened"),
+			);
+			continue;
+		}
+		try {
+			return await queue.flush();
+		} catch (error) {
+			// Retried unless the server discarded the transaction.
+			if (!(error instanceof TransactionAbortedError) || error.cause) {
+				throw error;
+			}
+		}
+	}
+	throw new TransactionAbortedError(
+		`Watched keys were modified, gave up after ${maxRetries} retries`,
+	);
+}
@@ -1,6 +1,12 @@
 export const encoder: TextEncoder = new TextEncoder();
 export const decoder: TextDecoder = new TextDecoder();
 
+// Errors thrown by user handlers are logged, as `reportError()` would
+// terminate the process.
+export function logHandlerError(description: string, error: unknown): void {
+	console.error(description, error);
+}
+
 export function parsePortLike(port: string | number | undefined): number {
 	let parsedPort: number;
 	if (typeof port === "string") {